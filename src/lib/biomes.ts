@@ -0,0 +1,140 @@
+import type { BlockType } from '@/lib/game-types';
+
+export type BiomeId = 'plains' | 'forest' | 'desert' | 'tundra' | 'ocean' | 'mountains';
+export type Precipitation = 'rain' | 'snow' | 'none';
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  surface: BlockType;
+  subsurface: BlockType;
+  treeDensity: number;
+  // Multiplies the rolling-hills noise and shifts the column, blended across borders by climate weight.
+  hillScale: number;
+  heightOffset: number;
+  grassColor: string;
+  leavesColor: string;
+  // What falls here when the weather is not clear.
+  precipitation: Precipitation;
+  // Position in temperature/humidity space, both in [-1, 1]. Ocean and mountains are chosen by terrain shape instead.
+  climate: { temperature: number; humidity: number } | null;
+}
+
+export const BIOMES: readonly Biome[] = [
+  {
+    id: 'plains',
+    name: 'Равнины',
+    surface: 'grass',
+    subsurface: 'dirt',
+    treeDensity: 0.003,
+    hillScale: 0.5,
+    heightOffset: 0,
+    grassColor: '#6B8E23',
+    leavesColor: '#228B22',
+    precipitation: 'rain',
+    climate: { temperature: 0.1, humidity: -0.1 },
+  },
+  {
+    id: 'forest',
+    name: 'Лес',
+    surface: 'grass',
+    subsurface: 'dirt',
+    treeDensity: 0.06,
+    hillScale: 1,
+    heightOffset: 1,
+    grassColor: '#4F7A28',
+    leavesColor: '#1E6B1E',
+    precipitation: 'rain',
+    climate: { temperature: 0.2, humidity: 0.6 },
+  },
+  {
+    id: 'desert',
+    name: 'Пустыня',
+    surface: 'sand',
+    subsurface: 'sand',
+    treeDensity: 0,
+    hillScale: 0.7,
+    heightOffset: 1,
+    grassColor: '#BFB755',
+    leavesColor: '#AEA42A',
+    precipitation: 'none',
+    climate: { temperature: 0.75, humidity: -0.6 },
+  },
+  {
+    id: 'tundra',
+    name: 'Тундра',
+    surface: 'snow',
+    subsurface: 'dirt',
+    treeDensity: 0.008,
+    hillScale: 0.8,
+    heightOffset: 0,
+    grassColor: '#80B497',
+    leavesColor: '#60A17B',
+    precipitation: 'snow',
+    climate: { temperature: -0.7, humidity: 0 },
+  },
+  {
+    id: 'ocean',
+    name: 'Океан',
+    surface: 'sand',
+    subsurface: 'sand',
+    treeDensity: 0,
+    hillScale: 0.4,
+    heightOffset: 0,
+    grassColor: '#6B8E23',
+    leavesColor: '#228B22',
+    precipitation: 'rain',
+    climate: null,
+  },
+  {
+    id: 'mountains',
+    name: 'Горы',
+    surface: 'stone',
+    subsurface: 'stone',
+    treeDensity: 0.004,
+    hillScale: 1.2,
+    heightOffset: 0,
+    grassColor: '#7A9A5A',
+    leavesColor: '#3F7A3F',
+    precipitation: 'snow',
+    climate: null,
+  },
+];
+
+export const BIOME_IDS = Object.fromEntries(BIOMES.map((biome, index) => [biome.id, index])) as Record<BiomeId, number>;
+
+export const getLandBiomes = (biomes: readonly Biome[]) => biomes.filter(biome => biome.climate !== null);
+
+// Larger values make borders between climate biomes narrower.
+const BLEND_SHARPNESS = 12;
+
+export interface BiomeBlend {
+  dominant: Biome;
+  hillScale: number;
+  heightOffset: number;
+}
+
+// Softmax over the distance to each biome's climate point: the closest wins the surface,
+// while height parameters are mixed by weight so borders slope instead of stepping.
+export const blendClimateBiomes = (landBiomes: readonly Biome[], temperature: number, humidity: number): BiomeBlend => {
+  let dominant = landBiomes[0];
+  let bestWeight = 0;
+  let totalWeight = 0;
+  let hillScale = 0;
+  let heightOffset = 0;
+
+  for (const biome of landBiomes) {
+    const dt = temperature - biome.climate!.temperature;
+    const dh = humidity - biome.climate!.humidity;
+    const weight = Math.exp(-BLEND_SHARPNESS * (dt * dt + dh * dh));
+    totalWeight += weight;
+    hillScale += biome.hillScale * weight;
+    heightOffset += biome.heightOffset * weight;
+    if (weight > bestWeight) {
+      bestWeight = weight;
+      dominant = biome;
+    }
+  }
+
+  return { dominant, hillScale: hillScale / totalWeight, heightOffset: heightOffset / totalWeight };
+};
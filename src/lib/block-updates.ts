@@ -0,0 +1,77 @@
+import type { Block, FallingBlockEntity } from '@/lib/game-types';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+import { FALL_DELAY, hasGravity, updateGravityBlock } from '@/lib/falling-blocks';
+import { FIRE_DELAY, updateFire } from '@/lib/fire';
+import { FLUIDS, NEIGHBOURS, isFluid, updateFluid, type WorldAccess } from '@/lib/fluids';
+
+export interface BlockUpdates {
+  getBlock: (x: number, y: number, z: number) => Block;
+  // Changes a block and schedules it and its neighbours for an update, which is how fluids start
+  // moving, unsupported sand starts falling and fire keeps burning.
+  setBlock: (x: number, y: number, z: number, block: Block) => void;
+  // Advances one game tick and runs the updates that are due.
+  tick: () => void;
+  getPending: () => number;
+}
+
+// Updates past this count are carried over to the next tick, so a burst of changes never stalls a frame.
+const MAX_UPDATES_PER_TICK = 512;
+
+// Ticks until a block reacts to a change next to it, or null when it never does.
+const getUpdateDelay = (block: Block) => {
+  if (isFluid(block.type)) return FLUIDS[block.type].tickDelay;
+  if (block.type === 'fire') return FIRE_DELAY;
+  return hasGravity(block.type) ? FALL_DELAY : null;
+};
+
+export const createBlockUpdates = (world: WorldAccess, onFall: (entity: FallingBlockEntity) => void): BlockUpdates => {
+  const buckets = new Map<number, [number, number, number][]>();
+  const scheduled = new Set<string>();
+  let currentTick = 0;
+
+  const schedule = (x: number, y: number, z: number) => {
+    const delay = getUpdateDelay(world.getBlock(x, y, z));
+    const key = `${x},${y},${z}`;
+    if (delay === null || scheduled.has(key)) return;
+    scheduled.add(key);
+    const due = currentTick + delay;
+    const bucket = buckets.get(due);
+    if (bucket) bucket.push([x, y, z]);
+    else buckets.set(due, [[x, y, z]]);
+  };
+
+  const setBlock = (x: number, y: number, z: number, block: Block) => {
+    world.setBlock(x, y, z, block);
+    schedule(x, y, z);
+    NEIGHBOURS.forEach(([dx, dy, dz]) => schedule(x + dx, y + dy, z + dz));
+  };
+
+  const updates = { getBlock: world.getBlock, setBlock };
+
+  const tick = () => {
+    currentTick++;
+    const due = buckets.get(currentTick);
+    if (!due) return;
+    buckets.delete(currentTick);
+    if (due.length > MAX_UPDATES_PER_TICK) {
+      buckets.set(currentTick + 1, [...due.splice(MAX_UPDATES_PER_TICK), ...(buckets.get(currentTick + 1) ?? [])]);
+    }
+
+    due.forEach(([x, y, z]) => {
+      scheduled.delete(`${x},${y},${z}`);
+      // Updates in chunks that were unloaded meanwhile are dropped; the block stays as it was.
+      const block = world.getBlock(x, y, z);
+      if (block === UNLOADED_BLOCK) return;
+      if (isFluid(block.type)) {
+        updateFluid(updates, x, y, z, block);
+      } else if (block.type === 'fire') {
+        updateFire(updates, x, y, z, block);
+      } else {
+        const entity = updateGravityBlock(updates, x, y, z, block);
+        if (entity) onFall(entity);
+      }
+    });
+  };
+
+  return { ...updates, tick, getPending: () => scheduled.size };
+};
@@ -0,0 +1,94 @@
+import type { BlockType, ItemType } from '@/lib/game-types';
+
+export interface ItemProperties {
+  color: string;
+  // Drawn as diagonal stripes over `color`, like the TNT wrapping.
+  stripeColor?: string;
+  stackSize: number;
+}
+
+export interface BlockProperties extends ItemProperties {
+  // Collides with the player and stops the crosshair.
+  solid: boolean;
+  // Rays pass through and pick up its colour as a tint.
+  transparent: boolean;
+  // Negative for blocks that cannot be broken by hand.
+  hardness: number;
+  blastResistance: number;
+  // Item left in the inventory when broken in survival; the block itself by default, nothing when null.
+  drops?: keyof typeof ITEM_REGISTRY | null;
+  // Light level from 0 to 15.
+  lightEmission: number;
+  // Light levels lost passing through the block; 15 stops light completely.
+  lightOpacity: number;
+  // Falls when there is nothing solid below it.
+  gravity: boolean;
+  // Burns away when fire is next to it.
+  flammable: boolean;
+  // Offered in the creative inventory.
+  creative: boolean;
+}
+
+// Items that exist only in the inventory and have no block form.
+export const ITEM_REGISTRY = {
+  coal: { color: '#1C1C1C', stackSize: 64 },
+  diamond: { color: '#5DECF5', stackSize: 64 },
+} satisfies Record<string, ItemProperties>;
+
+const block = (properties: Partial<BlockProperties> & Pick<BlockProperties, 'color'>): BlockProperties => ({
+  solid: true,
+  transparent: false,
+  hardness: 1,
+  blastResistance: 1,
+  lightEmission: 0,
+  lightOpacity: 15,
+  stackSize: 64,
+  gravity: false,
+  flammable: false,
+  creative: true,
+  ...properties,
+});
+
+// The key order is the in-memory palette order, so air has to stay first.
+export const BLOCK_REGISTRY = {
+  air: block({ color: 'transparent', solid: false, transparent: true, hardness: 0, blastResistance: 0, lightOpacity: 0, creative: false }),
+  grass: block({ color: '#6B8E23', hardness: 0.6, blastResistance: 0.6 }),
+  dirt: block({ color: '#8B4513', hardness: 0.5, blastResistance: 0.5 }),
+  stone: block({ color: '#808080', hardness: 1.5, blastResistance: 6 }),
+  wood: block({ color: '#654321', hardness: 2, blastResistance: 2, flammable: true }),
+  planks: block({ color: '#DEB887', hardness: 2, blastResistance: 3, flammable: true }),
+  leaves: block({ color: '#228B22', hardness: 0.2, blastResistance: 0.2, lightOpacity: 1, flammable: true }),
+  water: block({ color: '#4169E1', solid: false, transparent: true, hardness: 100, blastResistance: 100, lightOpacity: 2 }),
+  sand: block({ color: '#F4A460', hardness: 0.5, blastResistance: 0.5, gravity: true }),
+  cobblestone: block({ color: '#6B6B6B', hardness: 2, blastResistance: 6 }),
+  glass: block({ color: '#87CEEB', transparent: true, hardness: 0.3, blastResistance: 0.3, lightOpacity: 0 }),
+  brick: block({ color: '#B22222', hardness: 2, blastResistance: 6 }),
+  tnt: block({ color: '#FF0000', stripeColor: '#FFFFFF', hardness: 0, blastResistance: 0 }),
+  snow: block({ color: '#F0F8FF', hardness: 0.2, blastResistance: 0.1 }),
+  bedrock: block({ color: '#2F2F2F', hardness: -1, blastResistance: 3600000, creative: false }),
+  coal_ore: block({ color: '#5A5A5A', hardness: 3, blastResistance: 3, drops: 'coal' }),
+  iron_ore: block({ color: '#A08A78', hardness: 3, blastResistance: 3 }),
+  gold_ore: block({ color: '#C9B037', hardness: 3, blastResistance: 3 }),
+  diamond_ore: block({ color: '#5FC9C9', hardness: 3, blastResistance: 3, drops: 'diamond' }),
+  chest: block({ color: '#A0522D', hardness: 2.5, blastResistance: 2.5 }),
+  lava: block({ color: '#E25822', solid: false, hardness: 100, blastResistance: 100, lightEmission: 15 }),
+  obsidian: block({ color: '#1B1427', hardness: 50, blastResistance: 1200 }),
+  torch: block({ color: '#FFC93C', solid: false, hardness: 0, blastResistance: 0, lightEmission: 14, lightOpacity: 0 }),
+  glowstone: block({ color: '#FFD67A', hardness: 0.3, blastResistance: 0.3, lightEmission: 15 }),
+  // Settles in layers during snowfall; the level is the number of layers.
+  snow_layer: block({ color: '#F0F8FF', solid: false, hardness: 0.1, blastResistance: 0.1, lightOpacity: 0 }),
+  sapling: block({ color: '#3E8E2F', solid: false, hardness: 0, blastResistance: 0, lightOpacity: 0, flammable: true }),
+  fire: block({ color: '#FF8C1A', solid: false, hardness: 0, blastResistance: 0, lightEmission: 15, lightOpacity: 0, drops: null, creative: false }),
+};
+
+export const CREATIVE_BLOCKS = (Object.keys(BLOCK_REGISTRY) as BlockType[]).filter(type => BLOCK_REGISTRY[type].creative);
+
+export const getBlockProperties = (type: BlockType): BlockProperties => BLOCK_REGISTRY[type];
+
+export const getItemProperties = (item: ItemType): ItemProperties =>
+  item in BLOCK_REGISTRY ? BLOCK_REGISTRY[item as BlockType] : ITEM_REGISTRY[item as keyof typeof ITEM_REGISTRY];
+
+export const getBlockDrop = (type: BlockType): ItemType | null => {
+  const { drops } = BLOCK_REGISTRY[type];
+  return drops === undefined ? type : drops;
+};
@@ -0,0 +1,168 @@
+import { CHUNK_SIZE, getBlockId, getChunkBlockId, getChunkHeight, getLocalIndex, setChunkBlockId, type Chunk } from '@/lib/chunk';
+import { createNoise3D, type Noise3D } from '@/lib/noise';
+import { createRandom, hashCoords } from '@/lib/random';
+
+// Worms and ravines may start this many chunks away and still reach into the chunk being carved.
+const CARVER_RANGE = 4;
+const WORM_STEPS = 90;
+const RAVINE_STEPS = 70;
+const RAVINE_CHANCE = 0.02;
+
+// Carving stays above the bedrock floor at y = 0 and at least this many blocks under the sky limit.
+const MIN_CARVE_Y = 1;
+const SKY_MARGIN = 4;
+
+// Carved space at or below this height fills with lava instead of air.
+const LAVA_LEVEL = 4;
+
+const getMaxCarveY = (chunk: Chunk) => getChunkHeight(chunk) - SKY_MARGIN;
+
+interface CaveNoise {
+  seed: number;
+  tunnelA: Noise3D;
+  tunnelB: Noise3D;
+  cheese: Noise3D;
+}
+
+let cachedNoise: CaveNoise | null = null;
+
+const getCaveNoise = (seed: number): CaveNoise => {
+  if (cachedNoise?.seed !== seed) {
+    cachedNoise = {
+      seed,
+      tunnelA: createNoise3D(hashCoords(seed, 10)),
+      tunnelB: createNoise3D(hashCoords(seed, 11)),
+      cheese: createNoise3D(hashCoords(seed, 12)),
+    };
+  }
+  return cachedNoise;
+};
+
+const AIR = getBlockId('air');
+const WATER = getBlockId('water');
+const BEDROCK = getBlockId('bedrock');
+const LAVA = getBlockId('lava');
+const GRASS = getBlockId('grass');
+const DIRT = getBlockId('dirt');
+
+// Removes a block unless it is water, bedrock or sits right under water, so lakes and oceans never drain into caves.
+// Carving away grass moves it down onto the dirt below, which would otherwise lie bare under the sky.
+const carveBlock = (chunk: Chunk, x: number, y: number, z: number) => {
+  if (y < MIN_CARVE_Y || y > getMaxCarveY(chunk)) return;
+  const index = getLocalIndex(x, y, z);
+  const id = getChunkBlockId(chunk, index);
+  if (id === AIR || id === WATER || id === BEDROCK || id === LAVA) return;
+  if (getChunkBlockId(chunk, getLocalIndex(x, y + 1, z)) === WATER) return;
+  setChunkBlockId(chunk, index, y <= LAVA_LEVEL ? LAVA : AIR);
+  const below = getLocalIndex(x, y - 1, z);
+  if (id === GRASS && getChunkBlockId(chunk, below) === DIRT) setChunkBlockId(chunk, below, GRASS);
+};
+
+const carveEllipsoid = (
+  chunk: Chunk,
+  chunkX: number,
+  chunkZ: number,
+  centerX: number,
+  centerY: number,
+  centerZ: number,
+  radius: number,
+  verticalRadius: number,
+) => {
+  const originX = chunkX * CHUNK_SIZE;
+  const originZ = chunkZ * CHUNK_SIZE;
+  const minX = Math.max(0, Math.floor(centerX - radius) - originX);
+  const maxX = Math.min(CHUNK_SIZE - 1, Math.floor(centerX + radius) - originX);
+  const minZ = Math.max(0, Math.floor(centerZ - radius) - originZ);
+  const maxZ = Math.min(CHUNK_SIZE - 1, Math.floor(centerZ + radius) - originZ);
+  if (minX > maxX || minZ > maxZ) return;
+  const minY = Math.max(MIN_CARVE_Y, Math.floor(centerY - verticalRadius));
+  const maxY = Math.min(getMaxCarveY(chunk), Math.floor(centerY + verticalRadius));
+
+  for (let x = minX; x <= maxX; x++) {
+    const dx = (originX + x + 0.5 - centerX) / radius;
+    for (let z = minZ; z <= maxZ; z++) {
+      const dz = (originZ + z + 0.5 - centerZ) / radius;
+      if (dx * dx + dz * dz >= 1) continue;
+      // Top-down so the "under water" check sees the column before it is opened.
+      for (let y = maxY; y >= minY; y--) {
+        const dy = (y + 0.5 - centerY) / verticalRadius;
+        if (dx * dx + dy * dy + dz * dz < 1) carveBlock(chunk, x, y, z);
+      }
+    }
+  }
+};
+
+// Every chunk replays the walkers that start in its neighbourhood from their own seeded random,
+// so a tunnel crossing a border is carved identically on both sides regardless of generation order.
+const carveWalkers = (chunk: Chunk, seed: number, chunkX: number, chunkZ: number) => {
+  const centerX = chunkX * CHUNK_SIZE + CHUNK_SIZE / 2;
+  const centerZ = chunkZ * CHUNK_SIZE + CHUNK_SIZE / 2;
+
+  for (let sourceX = chunkX - CARVER_RANGE; sourceX <= chunkX + CARVER_RANGE; sourceX++) {
+    for (let sourceZ = chunkZ - CARVER_RANGE; sourceZ <= chunkZ + CARVER_RANGE; sourceZ++) {
+      const random = createRandom(hashCoords(seed, sourceX, sourceZ, 13));
+      const walkers = random() < 0.35 ? 1 + Math.floor(random() * 2) : 0;
+      const isRavine = random() < RAVINE_CHANCE;
+
+      for (let walker = 0; walker < walkers + (isRavine ? 1 : 0); walker++) {
+        const ravine = isRavine && walker === walkers;
+        let x = sourceX * CHUNK_SIZE + random() * CHUNK_SIZE;
+        let z = sourceZ * CHUNK_SIZE + random() * CHUNK_SIZE;
+        let y = ravine ? 20 + random() * 16 : 6 + random() * 34;
+        let yaw = random() * Math.PI * 2;
+        let pitch = ravine ? (random() - 0.5) * 0.1 : (random() - 0.5) * 0.5;
+        let yawChange = 0;
+        let pitchChange = 0;
+        const steps = ravine ? RAVINE_STEPS : WORM_STEPS;
+        const thickness = ravine ? 1.5 + random() * 1.5 : 1 + random() * 1.8;
+
+        for (let step = 0; step < steps; step++) {
+          const progress = step / steps;
+          const width = 1 + Math.sin(progress * Math.PI) * thickness;
+          const height = ravine ? width * 6 : width * 0.8;
+
+          x += Math.cos(yaw) * Math.cos(pitch);
+          z += Math.sin(yaw) * Math.cos(pitch);
+          y += Math.sin(pitch);
+
+          pitch *= ravine ? 0.7 : 0.9;
+          pitch += pitchChange * 0.1;
+          yaw += yawChange * 0.1;
+          pitchChange = pitchChange * 0.9 + (random() - random()) * random() * 2;
+          yawChange = yawChange * 0.75 + (random() - random()) * random() * 4;
+
+          if (Math.abs(x - centerX) > CHUNK_SIZE / 2 + width || Math.abs(z - centerZ) > CHUNK_SIZE / 2 + width) continue;
+          carveEllipsoid(chunk, chunkX, chunkZ, x, y, z, width, height);
+        }
+      }
+    }
+  }
+};
+
+// Spaghetti tunnels where two noise fields are both near zero, plus rare open chambers deep down.
+const carveNoiseCaves = (chunk: Chunk, seed: number, chunkX: number, chunkZ: number, heights: Uint16Array) => {
+  const noise = getCaveNoise(seed);
+
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const worldX = chunkX * CHUNK_SIZE + x;
+      const worldZ = chunkZ * CHUNK_SIZE + z;
+      // Keep a roof so noise caves only open to the sky through worm entrances.
+      const top = Math.min(getMaxCarveY(chunk), heights[z * CHUNK_SIZE + x] - 5);
+
+      for (let y = top; y >= MIN_CARVE_Y; y--) {
+        const a = noise.tunnelA(worldX * 0.03, y * 0.05, worldZ * 0.03);
+        const b = noise.tunnelB(worldX * 0.03, y * 0.05, worldZ * 0.03);
+        const tunnel = a * a + b * b < 0.006;
+        const chamber = y < 24 && noise.cheese(worldX * 0.02, y * 0.04, worldZ * 0.02) > 0.62;
+        if (tunnel || chamber) carveBlock(chunk, x, y, z);
+      }
+    }
+  }
+};
+
+// `heights` holds the generated surface height per column (`z * CHUNK_SIZE + x`).
+export const carveCaves = (chunk: Chunk, seed: number, chunkX: number, chunkZ: number, heights: Uint16Array) => {
+  carveNoiseCaves(chunk, seed, chunkX, chunkZ, heights);
+  carveWalkers(chunk, seed, chunkX, chunkZ);
+};
@@ -0,0 +1,51 @@
+import type { Block, BlockType } from '@/lib/game-types';
+import { BLOCK_PALETTE, SECTION_VOLUME, getChunkBlockId, readChunkBlock, writeChunkBlock, type Chunk } from '@/lib/chunk';
+
+export interface DeltaEntry {
+  block: Block;
+  original: Block | null;
+}
+
+export type ChunkDelta = Map<number, DeltaEntry>;
+// The level is only written for flowing fluids, so older saves read as sources.
+export type SerializedDelta = ([number, BlockType] | [number, BlockType, number])[];
+
+const isSameBlock = (a: Block, b: Block) => a.type === b.type && (a.level ?? 0) === (b.level ?? 0);
+
+export const applyDelta = (chunk: Chunk, delta: ChunkDelta) => {
+  delta.forEach((entry, index) => {
+    entry.original = readChunkBlock(chunk, index);
+    writeChunkBlock(chunk, index, entry.block);
+  });
+};
+
+// `original` is the generated block, so writing it back removes the entry instead of growing the delta.
+export const recordChange = (delta: ChunkDelta, index: number, previous: Block, block: Block) => {
+  const entry = delta.get(index);
+  if (!entry) {
+    if (!isSameBlock(previous, block)) delta.set(index, { block, original: previous });
+  } else if (entry.original && isSameBlock(entry.original, block)) {
+    delta.delete(index);
+  } else {
+    entry.block = block;
+  }
+};
+
+export const serializeDelta = (delta: ChunkDelta): SerializedDelta =>
+  Array.from(delta, ([index, { block }]) => (block.level ? [index, block.type, block.level] : [index, block.type]));
+
+export const deserializeDelta = (changes: SerializedDelta): ChunkDelta =>
+  new Map(changes.map(([index, type, level]) => [index, { block: { type, level }, original: null }]));
+
+export const diffChunk = (generated: Chunk, current: Chunk): SerializedDelta => {
+  const changes: SerializedDelta = [];
+  current.sections.forEach((section, sectionIndex) => {
+    if (!section && !generated.sections[sectionIndex]) return;
+    const start = sectionIndex * SECTION_VOLUME;
+    for (let index = start; index < start + SECTION_VOLUME; index++) {
+      const id = getChunkBlockId(current, index);
+      if (getChunkBlockId(generated, index) !== id) changes.push([index, BLOCK_PALETTE[id]]);
+    }
+  });
+  return changes;
+};
@@ -0,0 +1,240 @@
+import type { Block } from '@/lib/game-types';
+import { BIOMES, type Biome } from '@/lib/biomes';
+import { AIR_BLOCK, CHUNK_SIZE, getChunkBytes, getLocalIndex, readChunkBlock, writeChunkBlock, type Chunk } from '@/lib/chunk';
+import { applyDelta, deserializeDelta, recordChange, serializeDelta, type ChunkDelta } from '@/lib/chunk-delta';
+import type { LootTableId } from '@/lib/loot';
+import type { ChunkSource } from '@/lib/terrain-worker-pool';
+import type { SavedChunk } from '@/lib/world-storage';
+
+export interface ChunkStats {
+  loaded: number;
+  pending: number;
+  modified: number;
+  bytes: number;
+}
+
+export interface ChunkManager {
+  // World height in blocks; everything outside 0..height - 1 reads as air and cannot be changed.
+  height: number;
+  getChunk: (chunkX: number, chunkZ: number) => Chunk | null;
+  // Like getChunk, but never queues the chunk for generation.
+  getLoadedChunk: (chunkX: number, chunkZ: number) => Chunk | null;
+  forEachChunk: (callback: (chunkX: number, chunkZ: number, chunk: Chunk) => void) => void;
+  getBlock: (x: number, y: number, z: number) => Block;
+  setBlock: (x: number, y: number, z: number, block: Block) => void;
+  isLoaded: (x: number, z: number) => boolean;
+  getBiome: (x: number, z: number) => Biome | null;
+  getLootTable: (x: number, y: number, z: number) => LootTableId | null;
+  // Returns false when the chunk is no longer wanted and was dropped.
+  receiveChunk: (chunkX: number, chunkZ: number, chunk: Chunk) => boolean;
+  // The chunk could not be generated; it is requested again later, waiting longer after each failure.
+  failChunk: (chunkX: number, chunkZ: number) => void;
+  restoreChanges: (chunks: SavedChunk[]) => void;
+  takeDirtyChanges: () => SavedChunk[];
+  markDirty: (keys: string[]) => void;
+  update: (centerX: number, centerZ: number, keepRadius: number, budgetBytes: number) => boolean;
+  getStats: () => ChunkStats;
+  dispose: () => void;
+}
+
+// Returned for blocks in chunks that are still being generated. It reads as air, but the renderer
+// and physics compare against it by identity to treat the space as unloaded rather than empty.
+export const UNLOADED_BLOCK: Block = Object.freeze({ type: 'air' });
+
+// Chunks this many chunks past the keep radius are dropped even when the budget is not exhausted.
+const UNLOAD_MARGIN = 2;
+// Milliseconds before a chunk that failed to generate is requested again, doubling with each failure.
+const RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60000;
+
+export const getChunkKey = (chunkX: number, chunkZ: number) => `${chunkX},${chunkZ}`;
+
+const toLocal = (coord: number) => ((coord % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+
+export const createChunkManager = (source: ChunkSource, height: number): ChunkManager => {
+  const chunks = new Map<string, { x: number; z: number; chunk: Chunk }>();
+  const pending = new Map<string, { x: number; z: number }>();
+  const deltas = new Map<string, ChunkDelta>();
+  const dirty = new Set<string>();
+  const failed = new Map<string, { x: number; z: number; attempts: number; retryAt: number }>();
+  let last: { x: number; z: number; chunk: Chunk } | null = null;
+
+  const requestChunk = (key: string, chunkX: number, chunkZ: number) => {
+    if (pending.has(key) || Date.now() < (failed.get(key)?.retryAt ?? 0)) return;
+    pending.set(key, { x: chunkX, z: chunkZ });
+    source.request(chunkX, chunkZ);
+  };
+
+  const getLoadedChunk = (chunkX: number, chunkZ: number): Chunk | null => {
+    if (last && last.x === chunkX && last.z === chunkZ) return last.chunk;
+
+    const entry = chunks.get(getChunkKey(chunkX, chunkZ));
+    if (!entry) return null;
+    last = entry;
+    return entry.chunk;
+  };
+
+  const forEachChunk = (callback: (chunkX: number, chunkZ: number, chunk: Chunk) => void) => {
+    chunks.forEach(entry => callback(entry.x, entry.z, entry.chunk));
+  };
+
+  const getChunk = (chunkX: number, chunkZ: number): Chunk | null => {
+    const chunk = getLoadedChunk(chunkX, chunkZ);
+    if (!chunk) requestChunk(getChunkKey(chunkX, chunkZ), chunkX, chunkZ);
+    return chunk;
+  };
+
+  const receiveChunk = (chunkX: number, chunkZ: number, chunk: Chunk) => {
+    const key = getChunkKey(chunkX, chunkZ);
+    if (!pending.delete(key)) return false;
+    failed.delete(key);
+
+    const delta = deltas.get(key);
+    if (delta) applyDelta(chunk, delta);
+    chunks.set(key, { x: chunkX, z: chunkZ, chunk });
+    return true;
+  };
+
+  const failChunk = (chunkX: number, chunkZ: number) => {
+    const key = getChunkKey(chunkX, chunkZ);
+    if (!pending.delete(key)) return;
+    const attempts = (failed.get(key)?.attempts ?? 0) + 1;
+    failed.set(key, { x: chunkX, z: chunkZ, attempts, retryAt: Date.now() + Math.min(MAX_RETRY_DELAY, RETRY_DELAY * 2 ** (attempts - 1)) });
+  };
+
+  const getBlock = (x: number, y: number, z: number): Block => {
+    if (y < 0 || y >= height) return AIR_BLOCK;
+    const chunk = getChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+    if (!chunk) return UNLOADED_BLOCK;
+    return readChunkBlock(chunk, getLocalIndex(toLocal(x), y, toLocal(z)));
+  };
+
+  const isLoaded = (x: number, z: number) => getChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE)) !== null;
+
+  const getBiome = (x: number, z: number): Biome | null => {
+    const chunk = getChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+    return chunk ? BIOMES[chunk.biomes[toLocal(z) * CHUNK_SIZE + toLocal(x)]] : null;
+  };
+
+  const getLootTable = (x: number, y: number, z: number): LootTableId | null => {
+    const chunk = getChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+    return chunk?.loot.get(getLocalIndex(toLocal(x), y, toLocal(z))) ?? null;
+  };
+
+  const setBlock = (x: number, y: number, z: number, block: Block) => {
+    if (y < 0 || y >= height) return;
+
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const key = getChunkKey(chunkX, chunkZ);
+    const chunk = getChunk(chunkX, chunkZ);
+    if (!chunk) return;
+    let delta = deltas.get(key);
+    if (!delta) {
+      delta = new Map();
+      deltas.set(key, delta);
+    }
+
+    const index = getLocalIndex(toLocal(x), y, toLocal(z));
+    recordChange(delta, index, readChunkBlock(chunk, index), block);
+    writeChunkBlock(chunk, index, block);
+    dirty.add(key);
+  };
+
+  const restoreChanges = (saved: SavedChunk[]) => {
+    saved.forEach(({ key, changes }) => deltas.set(key, deserializeDelta(changes)));
+  };
+
+  const takeDirtyChanges = (): SavedChunk[] => {
+    const changes: SavedChunk[] = [];
+    dirty.forEach(key => {
+      const delta = deltas.get(key);
+      if (delta) changes.push({ key, changes: serializeDelta(delta) });
+    });
+    dirty.clear();
+    return changes;
+  };
+
+  const markDirty = (keys: string[]) => {
+    keys.forEach(key => dirty.add(key));
+  };
+
+  // Queues generation around the player nearest-first, drops requests that fell out of range and
+  // evicts chunks. Returns true when a chunk with unsaved edits was evicted, so the caller should
+  // save right away. Deltas always stay in memory, which lets an evicted chunk be rebuilt exactly.
+  const update = (centerX: number, centerZ: number, keepRadius: number, budgetBytes: number) => {
+    source.setFocus(centerX, centerZ);
+    for (let dx = -keepRadius; dx <= keepRadius; dx++) {
+      for (let dz = -keepRadius; dz <= keepRadius; dz++) {
+        const key = getChunkKey(centerX + dx, centerZ + dz);
+        if (!chunks.has(key)) requestChunk(key, centerX + dx, centerZ + dz);
+      }
+    }
+    pending.forEach((request, key) => {
+      if (Math.max(Math.abs(request.x - centerX), Math.abs(request.z - centerZ)) > keepRadius + UNLOAD_MARGIN) {
+        pending.delete(key);
+        source.cancel(request.x, request.z);
+      }
+    });
+    // A failed chunk that comes back into range later starts over with a short delay.
+    failed.forEach((failure, key) => {
+      if (Math.max(Math.abs(failure.x - centerX), Math.abs(failure.z - centerZ)) > keepRadius + UNLOAD_MARGIN) failed.delete(key);
+    });
+
+    const candidates: { key: string; distance: number; bytes: number; modified: boolean }[] = [];
+    let bytes = 0;
+
+    chunks.forEach((entry, key) => {
+      const chunkBytes = getChunkBytes(entry.chunk);
+      bytes += chunkBytes;
+      const distance = Math.max(Math.abs(entry.x - centerX), Math.abs(entry.z - centerZ));
+      if (distance > keepRadius) {
+        candidates.push({ key, distance, bytes: chunkBytes, modified: (deltas.get(key)?.size ?? 0) > 0 });
+      }
+    });
+    candidates.sort((a, b) => b.distance - a.distance);
+
+    let evictedDirty = false;
+    for (const candidate of candidates) {
+      const overBudget = bytes > budgetBytes;
+      const farAndPristine = candidate.distance > keepRadius + UNLOAD_MARGIN && !candidate.modified;
+      if (!overBudget && !farAndPristine) continue;
+
+      if (dirty.has(candidate.key)) evictedDirty = true;
+      if (last === chunks.get(candidate.key)) last = null;
+      chunks.delete(candidate.key);
+      bytes -= candidate.bytes;
+    }
+    return evictedDirty;
+  };
+
+  const getStats = (): ChunkStats => {
+    let bytes = 0;
+    let modified = 0;
+    chunks.forEach((entry, key) => {
+      bytes += getChunkBytes(entry.chunk);
+      if ((deltas.get(key)?.size ?? 0) > 0) modified++;
+    });
+    return { loaded: chunks.size, pending: pending.size, modified, bytes };
+  };
+
+  return {
+    height,
+    getChunk,
+    getLoadedChunk,
+    forEachChunk,
+    getBlock,
+    setBlock,
+    isLoaded,
+    getBiome,
+    getLootTable,
+    receiveChunk,
+    failChunk,
+    restoreChanges,
+    takeDirtyChanges,
+    markDirty,
+    update,
+    getStats,
+    dispose: source.terminate,
+  };
+};
@@ -0,0 +1,127 @@
+import type { Block, BlockType, ItemType } from '@/lib/game-types';
+import { BLOCK_REGISTRY } from '@/lib/blocks';
+import type { LootTableId } from '@/lib/loot';
+
+export const CHUNK_SIZE = 16;
+export const SECTION_HEIGHT = 16;
+export const SECTION_VOLUME = CHUNK_SIZE * SECTION_HEIGHT * CHUNK_SIZE;
+
+// Worlds pick their height when created; older worlds were always 64 blocks tall.
+export const DEFAULT_WORLD_HEIGHT = 64;
+export const WORLD_HEIGHTS = [64, 128, 256, 512];
+export const MAX_WORLD_HEIGHT = WORLD_HEIGHTS[WORLD_HEIGHTS.length - 1];
+
+// Numeric ids are only used in memory; saves reference blocks by name, so the order may change freely.
+export const BLOCK_PALETTE: readonly BlockType[] = Object.keys(BLOCK_REGISTRY) as BlockType[];
+
+const BLOCK_IDS = Object.fromEntries(BLOCK_PALETTE.map((type, id) => [type, id])) as Record<BlockType, number>;
+
+// One shared object per block type so reads never allocate.
+export const BLOCKS: readonly Block[] = BLOCK_PALETTE.map(type => Object.freeze({ type }));
+export const AIR_BLOCK = BLOCKS[BLOCK_IDS.air];
+const AIR_ID = BLOCK_IDS.air;
+
+const LEVELLED_BLOCKS = new Map<number, Block>();
+
+// Shared like BLOCKS; only flowing fluids and a few other blocks such as snow layers carry a level.
+export const getLevelledBlock = (id: number, level = 0): Block => {
+  if (level === 0) return BLOCKS[id];
+  const key = id * 16 + level;
+  let block = LEVELLED_BLOCKS.get(key);
+  if (!block) {
+    block = Object.freeze({ type: BLOCK_PALETTE[id], level });
+    LEVELLED_BLOCKS.set(key, block);
+  }
+  return block;
+};
+
+// Blocks are addressed by a chunk-wide index, `(y * CHUNK_SIZE + z) * CHUNK_SIZE + x`, which also
+// identifies them in saved deltas. Each section holds SECTION_HEIGHT layers of that range.
+export interface Chunk {
+  // Bottom to top; a section stays null until something other than air is written into it.
+  sections: (Uint8Array | null)[];
+  // Biome index per column, `z * CHUNK_SIZE + x`.
+  biomes: Uint8Array;
+  // Loot table of each chest placed by a structure, by block index. Rolled when the chest is first opened.
+  loot: Map<number, LootTableId>;
+  // Level of each fluid block that is not a source, by block index.
+  levels: Map<number, number>;
+  // Sky light in the high four bits and block light in the low four, per section like `sections`.
+  // Filled in on the main thread once the chunk is loaded; a null section is open sky.
+  light: (Uint8Array | null)[];
+}
+
+export const createChunk = (height: number): Chunk => ({
+  sections: Array<Uint8Array | null>(Math.ceil(height / SECTION_HEIGHT)).fill(null),
+  biomes: new Uint8Array(CHUNK_SIZE * CHUNK_SIZE),
+  loot: new Map(),
+  levels: new Map(),
+  light: Array<Uint8Array | null>(Math.ceil(height / SECTION_HEIGHT)).fill(null),
+});
+
+export const getBlockId = (type: BlockType) => BLOCK_IDS[type];
+
+export const isBlockType = (type: ItemType): type is BlockType => type in BLOCK_IDS;
+
+export const getLocalIndex = (x: number, y: number, z: number) => (y * CHUNK_SIZE + z) * CHUNK_SIZE + x;
+
+export const getChunkHeight = (chunk: Chunk) => chunk.sections.length * SECTION_HEIGHT;
+
+export const getChunkBlockId = (chunk: Chunk, index: number) => {
+  const section = chunk.sections[Math.floor(index / SECTION_VOLUME)];
+  return section ? section[index % SECTION_VOLUME] : AIR_ID;
+};
+
+export const setChunkBlockId = (chunk: Chunk, index: number, id: number) => {
+  const sectionIndex = Math.floor(index / SECTION_VOLUME);
+  let section = chunk.sections[sectionIndex];
+  if (!section) {
+    if (id === AIR_ID) return;
+    section = new Uint8Array(SECTION_VOLUME);
+    chunk.sections[sectionIndex] = section;
+  }
+  section[index % SECTION_VOLUME] = id;
+};
+
+export const readChunkBlock = (chunk: Chunk, index: number): Block =>
+  getLevelledBlock(getChunkBlockId(chunk, index), chunk.levels.get(index));
+
+export const writeChunkBlock = (chunk: Chunk, index: number, block: Block) => {
+  setChunkBlockId(chunk, index, BLOCK_IDS[block.type]);
+  if (block.level) chunk.levels.set(index, block.level);
+  else chunk.levels.delete(index);
+};
+
+export const OPEN_SKY_LIGHT = 0xf0;
+
+export const getChunkLight = (chunk: Chunk, index: number) => {
+  const section = chunk.light[Math.floor(index / SECTION_VOLUME)];
+  return section ? section[index % SECTION_VOLUME] : OPEN_SKY_LIGHT;
+};
+
+export const setChunkLight = (chunk: Chunk, index: number, light: number) => {
+  const sectionIndex = Math.floor(index / SECTION_VOLUME);
+  let section = chunk.light[sectionIndex];
+  if (!section) {
+    if (light === OPEN_SKY_LIGHT) return;
+    section = new Uint8Array(SECTION_VOLUME).fill(OPEN_SKY_LIGHT);
+    chunk.light[sectionIndex] = section;
+  }
+  section[index % SECTION_VOLUME] = light;
+};
+
+export const getChunkBlock = (chunk: Chunk, x: number, y: number, z: number): BlockType =>
+  BLOCK_PALETTE[getChunkBlockId(chunk, getLocalIndex(x, y, z))];
+
+export const setChunkBlock = (chunk: Chunk, x: number, y: number, z: number, type: BlockType) => {
+  setChunkBlockId(chunk, getLocalIndex(x, y, z), BLOCK_IDS[type]);
+};
+
+// Frees sections that ended up all air, e.g. after caves were carved through them.
+export const compactChunk = (chunk: Chunk) => {
+  chunk.sections = chunk.sections.map(section => (section && section.some(id => id !== AIR_ID) ? section : null));
+  return chunk;
+};
+
+export const getChunkBytes = (chunk: Chunk) =>
+  [...chunk.sections, ...chunk.light].reduce((bytes, section) => bytes + (section?.byteLength ?? 0), chunk.biomes.byteLength);
@@ -0,0 +1,46 @@
+import { DEFAULT_GAME_RULES, GAME_RULE_LIMITS, isGameRuleName, type GameRuleName, type GameRules } from '@/lib/game-rules';
+import { WEATHER_NAMES, WEATHER_TYPES, type WeatherType } from '@/lib/weather';
+
+// What commands are allowed to change in the open world.
+export interface CommandContext {
+  setWeather: (type: WeatherType, seconds?: number) => void;
+  gameRules: GameRules;
+  setGameRule: (name: GameRuleName, value: number) => void;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  message: string;
+}
+
+type Command = (args: string[], context: CommandContext) => CommandResult;
+
+const fail = (message: string): CommandResult => ({ ok: false, message });
+
+const COMMANDS: Record<string, Command> = {
+  weather: ([type, duration], context) => {
+    if (!WEATHER_TYPES.includes(type as WeatherType)) return fail(`Использование: /weather <${WEATHER_TYPES.join('|')}> [секунды]`);
+    const seconds = duration === undefined ? undefined : Number(duration);
+    if (seconds !== undefined && !(Number.isInteger(seconds) && seconds > 0)) return fail('Длительность должна быть целым числом секунд');
+    context.setWeather(type as WeatherType, seconds);
+    return { ok: true, message: `Погода: ${WEATHER_NAMES[type as WeatherType]}` };
+  },
+  gamerule: ([name, value], context) => {
+    const names = Object.keys(DEFAULT_GAME_RULES).join('|');
+    if (!name || !isGameRuleName(name)) return fail(`Использование: /gamerule <${names}> [значение]`);
+    if (value === undefined) return { ok: true, message: `${name} = ${context.gameRules[name]}` };
+
+    const { min, max } = GAME_RULE_LIMITS[name];
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) return fail(`${name}: целое число от ${min} до ${max}`);
+    context.setGameRule(name, number);
+    return { ok: true, message: `${name} = ${number}` };
+  },
+};
+
+export const runCommand = (input: string, context: CommandContext): CommandResult => {
+  const [name, ...args] = input.trim().replace(/^\//, '').split(/\s+/);
+  const command = Object.prototype.hasOwnProperty.call(COMMANDS, name) ? COMMANDS[name] : undefined;
+  if (!command) return fail(`Неизвестная команда: /${name}`);
+  return command(args, context);
+};
@@ -0,0 +1,81 @@
+export interface WorldClock {
+  // Days since the world was created; the fraction is the time of day, 0 being midnight and 0.5 noon.
+  time: number;
+  // Real minutes one full day and night take.
+  dayLength: number;
+  frozen: boolean;
+}
+
+interface SkyKeyframe {
+  time: number;
+  top: string;
+  bottom: string;
+}
+
+// Game ticks per real second, whatever the display's frame rate.
+export const TICKS_PER_SECOND = 60;
+export const DEFAULT_DAY_LENGTH = 20;
+// New worlds start shortly after sunrise.
+const START_TIME = 0.3;
+// Share of daylight that is left in the middle of the night.
+const NIGHT_LIGHT = 0.2;
+
+const SKY_KEYFRAMES: SkyKeyframe[] = [
+  { time: 0, top: '#05081A', bottom: '#141B38' },
+  { time: 0.2, top: '#05081A', bottom: '#141B38' },
+  { time: 0.25, top: '#3B4A7D', bottom: '#FF9E5E' },
+  { time: 0.3, top: '#87CEEB', bottom: '#E0F6FF' },
+  { time: 0.7, top: '#87CEEB', bottom: '#E0F6FF' },
+  { time: 0.75, top: '#4A3F78', bottom: '#FF7A45' },
+  { time: 0.8, top: '#05081A', bottom: '#141B38' },
+  { time: 1, top: '#05081A', bottom: '#141B38' },
+];
+
+export const createClock = (): WorldClock => ({ time: START_TIME, dayLength: DEFAULT_DAY_LENGTH, frozen: false });
+
+export const advanceClock = (clock: WorldClock): WorldClock => (
+  clock.frozen ? clock : { ...clock, time: clock.time + 1 / (clock.dayLength * 60 * TICKS_PER_SECOND) }
+);
+
+export const getTimeOfDay = (time: number) => time - Math.floor(time);
+
+// Moves the clock to the given time of day without going back to an earlier day.
+export const setTimeOfDay = (clock: WorldClock, timeOfDay: number): WorldClock => {
+  const day = Math.floor(clock.time);
+  return { ...clock, time: (timeOfDay >= getTimeOfDay(clock.time) ? day : day + 1) + timeOfDay };
+};
+
+// Sun position on its circle: 0 at sunrise in the east, π/2 overhead, π at sunset in the west.
+// The moon is always opposite the sun.
+export const getSunAngle = (time: number) => (getTimeOfDay(time) - 0.25) * Math.PI * 2;
+
+// Multiplier for block brightness, from NIGHT_LIGHT at night up to 1 during the day.
+export const getDaylight = (time: number) => {
+  const sunHeight = Math.sin(getSunAngle(time));
+  const daylight = Math.min(1, Math.max(0, sunHeight * 4 + 0.5));
+  return NIGHT_LIGHT + (1 - NIGHT_LIGHT) * daylight;
+};
+
+export const mixColors = (from: string, to: string, amount: number) => {
+  const a = parseInt(from.slice(1), 16);
+  const b = parseInt(to.slice(1), 16);
+  const channel = (shift: number) => {
+    const value = Math.round(((a >> shift) & 255) * (1 - amount) + ((b >> shift) & 255) * amount);
+    return value.toString(16).padStart(2, '0');
+  };
+  return `#${channel(16)}${channel(8)}${channel(0)}`;
+};
+
+export const getSkyColors = (time: number): Pick<SkyKeyframe, 'top' | 'bottom'> => {
+  const timeOfDay = getTimeOfDay(time);
+  const next = SKY_KEYFRAMES.findIndex(frame => frame.time > timeOfDay);
+  const to = SKY_KEYFRAMES[next];
+  const from = SKY_KEYFRAMES[next - 1];
+  const amount = (timeOfDay - from.time) / (to.time - from.time);
+  return { top: mixColors(from.top, to.top, amount), bottom: mixColors(from.bottom, to.bottom, amount) };
+};
+
+export const formatTimeOfDay = (time: number) => {
+  const minutes = Math.floor(getTimeOfDay(time) * 24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
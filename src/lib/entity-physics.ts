@@ -0,0 +1,3 @@
+// Blocks per tick, shared by falling blocks and dropped items so both fall the same way.
+export const GRAVITY = 0.04;
+export const MAX_FALL_SPEED = 0.9;
@@ -0,0 +1,137 @@
+import type { Block } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+import { isFluid, type WorldAccess } from '@/lib/fluids';
+
+export interface Explosion {
+  x: number;
+  y: number;
+  z: number;
+  // Roughly the radius in blocks through air; TNT has 4.
+  power: number;
+}
+
+export interface ExplodedBlock {
+  x: number;
+  y: number;
+  z: number;
+  block: Block;
+}
+
+export interface BoundingBox {
+  minX: number;
+  minY: number;
+  minZ: number;
+  maxX: number;
+  maxY: number;
+  maxZ: number;
+}
+
+export interface ExplosionImpact {
+  damage: number;
+  velX: number;
+  velY: number;
+  velZ: number;
+}
+
+export const TNT_POWER = 4;
+
+// Rays start from every cell on the surface of a RAY_GRID³ cube around the centre.
+const RAY_GRID = 16;
+const RAY_STEP = 0.3;
+// Strength a ray loses per step on top of what the blocks it passes absorb.
+const RAY_DECAY = 0.225;
+const DAMAGE_SCALE = 7;
+
+const blocksRays = (block: Block) => block !== UNLOADED_BLOCK && getBlockProperties(block.type).solid;
+
+// Blocks the explosion breaks. Each ray keeps going until the blocks it passes through, weighed by
+// their blast resistance, have used up its strength, so stone shields what lies behind it and glass does not.
+export const getExplodedBlocks = (world: WorldAccess, { x, y, z, power }: Explosion): ExplodedBlock[] => {
+  const exploded = new Map<string, ExplodedBlock>();
+  for (let i = 0; i < RAY_GRID; i++) {
+    for (let j = 0; j < RAY_GRID; j++) {
+      for (let k = 0; k < RAY_GRID; k++) {
+        const onSurface = [i, j, k].some(coord => coord === 0 || coord === RAY_GRID - 1);
+        if (!onSurface) continue;
+
+        let dirX = (i / (RAY_GRID - 1)) * 2 - 1;
+        let dirY = (j / (RAY_GRID - 1)) * 2 - 1;
+        let dirZ = (k / (RAY_GRID - 1)) * 2 - 1;
+        const length = Math.sqrt(dirX * dirX + dirY * dirY + dirZ * dirZ);
+        dirX = (dirX / length) * RAY_STEP;
+        dirY = (dirY / length) * RAY_STEP;
+        dirZ = (dirZ / length) * RAY_STEP;
+
+        let strength = power * (0.7 + Math.random() * 0.6);
+        for (let px = x, py = y, pz = z; strength > 0; px += dirX, py += dirY, pz += dirZ) {
+          const bx = Math.floor(px);
+          const by = Math.floor(py);
+          const bz = Math.floor(pz);
+          const block = world.getBlock(bx, by, bz);
+          if (block === UNLOADED_BLOCK) break;
+          if (block.type !== 'air') {
+            strength -= (getBlockProperties(block.type).blastResistance + 0.3) * RAY_STEP;
+            const key = `${bx},${by},${bz}`;
+            if (strength > 0 && !isFluid(block.type) && !exploded.has(key)) exploded.set(key, { x: bx, y: by, z: bz, block });
+          }
+          strength -= RAY_DECAY;
+        }
+      }
+    }
+  }
+  return [...exploded.values()];
+};
+
+// Share of sample points in the box with a clear line to the centre.
+const getExposure = (world: WorldAccess, { x, y, z }: Explosion, box: BoundingBox) => {
+  let visible = 0;
+  let total = 0;
+  for (let sx = 0; sx <= 1; sx += 0.5) {
+    for (let sy = 0; sy <= 1; sy += 0.5) {
+      for (let sz = 0; sz <= 1; sz += 0.5) {
+        const fromX = box.minX + (box.maxX - box.minX) * sx;
+        const fromY = box.minY + (box.maxY - box.minY) * sy;
+        const fromZ = box.minZ + (box.maxZ - box.minZ) * sz;
+        const distance = Math.sqrt((x - fromX) ** 2 + (y - fromY) ** 2 + (z - fromZ) ** 2);
+        const steps = Math.ceil(distance / RAY_STEP);
+        let blocked = false;
+        for (let step = 1; step < steps && !blocked; step++) {
+          const t = step / steps;
+          blocked = blocksRays(world.getBlock(
+            Math.floor(fromX + (x - fromX) * t),
+            Math.floor(fromY + (y - fromY) * t),
+            Math.floor(fromZ + (z - fromZ) * t),
+          ));
+        }
+        if (!blocked) visible++;
+        total++;
+      }
+    }
+  }
+  return visible / total;
+};
+
+// Damage and knockback for something occupying `box`: both fall off with distance up to twice the
+// power and scale with how much of the box the blast can see, so a wall in between protects.
+export const getExplosionImpact = (world: WorldAccess, explosion: Explosion, box: BoundingBox): ExplosionImpact | null => {
+  const centerX = (box.minX + box.maxX) / 2;
+  const centerY = (box.minY + box.maxY) / 2;
+  const centerZ = (box.minZ + box.maxZ) / 2;
+  const dx = centerX - explosion.x;
+  const dy = centerY - explosion.y;
+  const dz = centerZ - explosion.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  const reach = explosion.power * 2;
+  if (distance >= reach) return null;
+
+  const impact = (1 - distance / reach) * getExposure(world, explosion, box);
+  if (impact <= 0) return null;
+  const scale = distance > 0 ? impact / distance : 0;
+  return {
+    damage: Math.floor(((impact * impact + impact) / 2) * DAMAGE_SCALE * reach + 1),
+    velX: dx * scale,
+    velY: distance > 0 ? dy * scale : impact,
+    velZ: dz * scale,
+  };
+};
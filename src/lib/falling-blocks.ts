@@ -0,0 +1,39 @@
+import type { Block, BlockType, FallingBlockEntity } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+import { GRAVITY, MAX_FALL_SPEED } from '@/lib/entity-physics';
+import type { WorldAccess } from '@/lib/fluids';
+
+// Game ticks between a change below the block and the block starting to fall, so columns crumble one by one.
+export const FALL_DELAY = 2;
+
+export const hasGravity = (type: BlockType) => getBlockProperties(type).gravity;
+
+const canFallInto = (block: Block) => block !== UNLOADED_BLOCK && !getBlockProperties(block.type).solid;
+
+// Turns the block into a falling entity when the space below is open, or returns null when it stays put.
+export const updateGravityBlock = (world: WorldAccess, x: number, y: number, z: number, block: Block): FallingBlockEntity | null => {
+  if (!hasGravity(block.type) || !canFallInto(world.getBlock(x, y - 1, z))) return null;
+  world.setBlock(x, y, z, { type: 'air' });
+  return { x: x + 0.5, y: y + 0.5, z: z + 0.5, velY: 0, type: block.type };
+};
+
+// Moves the entity one tick down; returns true once it has landed as a block or fallen out of the world.
+export const stepFallingBlock = (world: WorldAccess, entity: FallingBlockEntity) => {
+  const x = Math.floor(entity.x);
+  const z = Math.floor(entity.z);
+  const velY = Math.max(entity.velY - GRAVITY, -MAX_FALL_SPEED);
+  const bottomY = Math.floor(entity.y + velY - 0.5);
+  const below = world.getBlock(x, bottomY, z);
+  // Waits above chunks that are still loading instead of landing on them.
+  if (below === UNLOADED_BLOCK) return false;
+
+  if (!canFallInto(below)) {
+    const landY = bottomY + 1;
+    if (canFallInto(world.getBlock(x, landY, z))) world.setBlock(x, landY, z, { type: entity.type });
+    return true;
+  }
+  entity.velY = velY;
+  entity.y += velY;
+  return entity.y < 0;
+};
@@ -0,0 +1,173 @@
+import type { BlockType } from '@/lib/game-types';
+import { BLOCK_PALETTE, CHUNK_SIZE, getBlockId, getChunkBlockId, getChunkHeight, getLocalIndex, setChunkBlockId, type Chunk } from '@/lib/chunk';
+import type { LootTableId } from '@/lib/loot';
+import { createRandom, hashCoords } from '@/lib/random';
+import { STRUCTURE_RULES } from '@/lib/structures';
+import type { TerrainColumn } from '@/lib/terrain';
+
+// Writes in world coordinates; blocks outside the chunk being generated are silently skipped,
+// the neighbouring chunk writes them when it replays the same placement.
+export interface FeatureWriter {
+  set: (x: number, y: number, z: number, type: BlockType, replace?: readonly BlockType[]) => void;
+  setLoot: (x: number, y: number, z: number, table: LootTableId) => void;
+}
+
+export interface Feature {
+  // How far the feature may reach horizontally from its origin, in blocks.
+  radius: number;
+  place: (writer: FeatureWriter, x: number, y: number, z: number, random: () => number) => void;
+}
+
+export type FeatureGroup = 'trees' | 'boulders' | 'structures';
+
+export interface FeatureRule {
+  group: FeatureGroup;
+  feature: Feature;
+  attempts: number;
+  // Probability of placing the feature on a sampled column; the origin is the first block above the surface.
+  chance: (column: TerrainColumn) => number;
+}
+
+export type ColumnSampler = (x: number, z: number) => TerrainColumn;
+
+const SOFT_GROUND: readonly BlockType[] = ['air', 'grass', 'dirt', 'sand', 'snow', 'water'];
+
+// Also grown from saplings in the live world.
+export const TREE_FEATURE: Feature = {
+  radius: 2,
+  place: (writer, x, y, z, random) => {
+    const trunk = 4 + Math.floor(random() * 2);
+    // Grass under the trunk would be smothered into dirt by the first random tick anyway.
+    writer.set(x, y - 1, z, 'dirt', ['grass']);
+    for (let dy = 0; dy < trunk; dy++) {
+      writer.set(x, y + dy, z, 'wood', ['air', 'leaves']);
+    }
+    for (let dx = -2; dx <= 2; dx++) {
+      for (let dz = -2; dz <= 2; dz++) {
+        for (let dy = 0; dy < 3; dy++) {
+          if (Math.abs(dx) + Math.abs(dz) <= 2) {
+            writer.set(x + dx, y + trunk - 1 + dy, z + dz, 'leaves');
+          }
+        }
+      }
+    }
+  },
+};
+
+const boulder: Feature = {
+  radius: 2,
+  place: (writer, x, y, z, random) => {
+    const radius = 1 + random() * 1.2;
+    for (let dx = -2; dx <= 2; dx++) {
+      for (let dy = -1; dy <= 2; dy++) {
+        for (let dz = -2; dz <= 2; dz++) {
+          if (dx * dx + dy * dy * 1.5 + dz * dz <= radius * radius) {
+            writer.set(x + dx, y + dy, z + dz, random() < 0.7 ? 'cobblestone' : 'stone', SOFT_GROUND);
+            writer.set(x + dx, y + dy - 1, z + dz, 'dirt', ['grass']);
+          }
+        }
+      }
+    }
+  },
+};
+
+const isDryGround = (column: TerrainColumn, types: readonly BlockType[]) =>
+  !column.submerged && types.includes(column.surface);
+
+export const FEATURE_RULES: FeatureRule[] = [
+  {
+    group: 'trees',
+    feature: TREE_FEATURE,
+    attempts: 16,
+    chance: column => (isDryGround(column, ['grass', 'snow']) ? column.biome.treeDensity * CHUNK_SIZE * CHUNK_SIZE / 16 : 0),
+  },
+  {
+    group: 'boulders',
+    feature: boulder,
+    attempts: 1,
+    chance: column => {
+      if (!isDryGround(column, ['grass', 'snow', 'stone'])) return 0;
+      if (column.biome.id === 'mountains') return 0.4;
+      return column.biome.id === 'plains' || column.biome.id === 'tundra' ? 0.08 : 0;
+    },
+  },
+  ...STRUCTURE_RULES,
+];
+
+interface FeaturePlacement {
+  feature: Feature;
+  x: number;
+  y: number;
+  z: number;
+  seed: number;
+}
+
+// Placements depend only on the seed, the source chunk and the terrain columns, never on
+// generated blocks, so every chunk the feature overlaps derives exactly the same list.
+const collectPlacements = (
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  sampleColumn: ColumnSampler,
+  frequencies: Partial<Record<FeatureGroup, number>>,
+) => {
+  const random = createRandom(hashCoords(seed, chunkX, chunkZ, 30));
+  const placements: FeaturePlacement[] = [];
+
+  FEATURE_RULES.forEach(rule => {
+    for (let attempt = 0; attempt < rule.attempts; attempt++) {
+      const x = chunkX * CHUNK_SIZE + Math.floor(random() * CHUNK_SIZE);
+      const z = chunkZ * CHUNK_SIZE + Math.floor(random() * CHUNK_SIZE);
+      const roll = random();
+      const placementSeed = Math.floor(random() * 4294967296);
+      const column = sampleColumn(x, z);
+      if (roll < rule.chance(column) * (frequencies[rule.group] ?? 1)) {
+        placements.push({ feature: rule.feature, x, y: column.height, z, seed: placementSeed });
+      }
+    }
+  });
+  return placements;
+};
+
+const FEATURE_RANGE = Math.ceil(Math.max(...FEATURE_RULES.map(rule => rule.feature.radius)) / CHUNK_SIZE);
+
+// `frequencies` scales the chance of each group, e.g. 0 disables it.
+export const placeFeatures = (
+  chunk: Chunk,
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  sampleColumn: ColumnSampler,
+  frequencies: Partial<Record<FeatureGroup, number>> = {},
+) => {
+  const originX = chunkX * CHUNK_SIZE;
+  const originZ = chunkZ * CHUNK_SIZE;
+  const height = getChunkHeight(chunk);
+  const toIndex = (x: number, y: number, z: number) => {
+    const localX = x - originX;
+    const localZ = z - originZ;
+    if (localX < 0 || localX >= CHUNK_SIZE || localZ < 0 || localZ >= CHUNK_SIZE || y < 1 || y >= height) return -1;
+    return getLocalIndex(localX, y, localZ);
+  };
+  const writer: FeatureWriter = {
+    set: (x, y, z, type, replace = ['air']) => {
+      const index = toIndex(x, y, z);
+      if (index >= 0 && replace.includes(BLOCK_PALETTE[getChunkBlockId(chunk, index)])) setChunkBlockId(chunk, index, getBlockId(type));
+    },
+    setLoot: (x, y, z, table) => {
+      const index = toIndex(x, y, z);
+      if (index >= 0) chunk.loot.set(index, table);
+    },
+  };
+
+  for (let sourceX = chunkX - FEATURE_RANGE; sourceX <= chunkX + FEATURE_RANGE; sourceX++) {
+    for (let sourceZ = chunkZ - FEATURE_RANGE; sourceZ <= chunkZ + FEATURE_RANGE; sourceZ++) {
+      collectPlacements(seed, sourceX, sourceZ, sampleColumn, frequencies).forEach(placement => {
+        const reach = placement.feature.radius;
+        if (placement.x + reach < originX || placement.x - reach >= originX + CHUNK_SIZE) return;
+        if (placement.z + reach < originZ || placement.z - reach >= originZ + CHUNK_SIZE) return;
+        placement.feature.place(writer, placement.x, placement.y, placement.z, createRandom(placement.seed));
+      });
+    }
+  }
+};
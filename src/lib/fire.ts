@@ -0,0 +1,36 @@
+import type { Block } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { NEIGHBOURS, type WorldAccess } from '@/lib/fluids';
+
+// Game ticks between two updates of the same fire.
+export const FIRE_DELAY = 30;
+
+// Updates a fire lasts before it dies down; its level counts them.
+const MAX_FIRE_AGE = 7;
+const BURN_CHANCE = 0.3;
+// Chance that a burnt block is replaced by fire rather than air.
+const SPREAD_CHANCE = 0.4;
+
+const isFlammable = (block: Block) => getBlockProperties(block.type).flammable;
+
+export const canBurnAt = (world: WorldAccess, x: number, y: number, z: number) =>
+  NEIGHBOURS.some(([dx, dy, dz]) => isFlammable(world.getBlock(x + dx, y + dy, z + dz)));
+
+// Runs one scheduled update of a fire: it burns some of the flammable blocks around it, the flames
+// may take their place, and it goes out once it is old or has nothing left to burn.
+export const updateFire = (world: WorldAccess, x: number, y: number, z: number, block: Block) => {
+  const age = block.level ?? 0;
+  if (age >= MAX_FIRE_AGE || !canBurnAt(world, x, y, z)) {
+    world.setBlock(x, y, z, { type: 'air' });
+    return;
+  }
+
+  NEIGHBOURS.forEach(([dx, dy, dz]) => {
+    if (!isFlammable(world.getBlock(x + dx, y + dy, z + dz)) || Math.random() > BURN_CHANCE) return;
+    world.setBlock(x + dx, y + dy, z + dz, { type: 'air' });
+    if (Math.random() < SPREAD_CHANCE && canBurnAt(world, x + dx, y + dy, z + dz)) {
+      world.setBlock(x + dx, y + dy, z + dz, { type: 'fire' });
+    }
+  });
+  world.setBlock(x, y, z, { type: 'fire', level: age + 1 });
+};
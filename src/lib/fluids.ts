@@ -0,0 +1,104 @@
+import type { Block, BlockType } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+
+export type FluidType = 'water' | 'lava';
+
+export interface FluidProperties {
+  // Game ticks between two updates of the same block.
+  tickDelay: number;
+  // How much the level grows per block of horizontal flow; the fluid stops past MAX_FLUID_LEVEL.
+  levelStep: number;
+  // Two sources with solid ground below create a new source between them.
+  infiniteSources: boolean;
+}
+
+export const FLUIDS: Record<FluidType, FluidProperties> = {
+  water: { tickDelay: 8, levelStep: 1, infiniteSources: true },
+  lava: { tickDelay: 30, levelStep: 2, infiniteSources: false },
+};
+
+export const MAX_FLUID_LEVEL = 7;
+export const FALLING_LEVEL = 8;
+
+export interface WorldAccess {
+  getBlock: (x: number, y: number, z: number) => Block;
+  // Expected to schedule updates around the changed block, so changes keep spreading.
+  setBlock: (x: number, y: number, z: number, block: Block) => void;
+}
+
+const HORIZONTAL: readonly [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+export const NEIGHBOURS: readonly [number, number, number][] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+export const isFluid = (type: BlockType): type is FluidType => type in FLUIDS;
+
+// Surface height inside the block, from 0 to 1; sources and falling columns are almost full.
+export const getFluidHeight = (block: Block) => {
+  const level = block.level ?? 0;
+  return level === FALLING_LEVEL ? 1 : (8 - level) / 9;
+};
+
+const isSource = (block: Block, type: FluidType) => block.type === type && !block.level;
+
+// Unloaded chunks read as air but nothing may flow into them.
+const canFlowInto = (block: Block) => block !== UNLOADED_BLOCK && block.type === 'air';
+
+// Level this block should have given its surroundings, or null when nothing feeds it any more.
+const getExpectedLevel = (world: WorldAccess, type: FluidType, x: number, y: number, z: number): number | null => {
+  if (world.getBlock(x, y + 1, z).type === type) return FALLING_LEVEL;
+
+  const { levelStep, infiniteSources } = FLUIDS[type];
+  let sources = 0;
+  let level = Infinity;
+  for (const [dx, dz] of HORIZONTAL) {
+    const neighbour = world.getBlock(x + dx, y, z + dz);
+    if (neighbour.type !== type) continue;
+    const neighbourLevel = neighbour.level ?? 0;
+    if (neighbourLevel === 0) sources++;
+    level = Math.min(level, (neighbourLevel === FALLING_LEVEL ? 0 : neighbourLevel) + levelStep);
+  }
+
+  const below = world.getBlock(x, y - 1, z);
+  if (infiniteSources && sources >= 2 && (getBlockProperties(below.type).solid || isSource(below, type))) return 0;
+  return level <= MAX_FLUID_LEVEL ? level : null;
+};
+
+// Runs one scheduled update of a fluid block: lava touching water hardens, flowing fluid follows
+// its neighbours' levels, and then the fluid pours downwards or spreads out sideways.
+export const updateFluid = (world: WorldAccess, x: number, y: number, z: number, block: Block) => {
+  if (!isFluid(block.type)) return;
+  const type = block.type;
+  let level = block.level ?? 0;
+
+  if (type === 'lava') {
+    const touchesWater = NEIGHBOURS.some(([dx, dy, dz]) => world.getBlock(x + dx, y + dy, z + dz).type === 'water');
+    if (touchesWater) {
+      world.setBlock(x, y, z, { type: level === 0 ? 'obsidian' : 'stone' });
+      return;
+    }
+  }
+
+  if (level !== 0) {
+    const expected = getExpectedLevel(world, type, x, y, z);
+    if (expected === null) {
+      world.setBlock(x, y, z, { type: 'air' });
+      return;
+    }
+    if (expected !== level) {
+      world.setBlock(x, y, z, { type, level: expected });
+      return;
+    }
+  }
+
+  const below = world.getBlock(x, y - 1, z);
+  if (canFlowInto(below)) world.setBlock(x, y - 1, z, { type, level: FALLING_LEVEL });
+  // Only sources keep spreading sideways while the fluid can still fall into air or more of itself.
+  if ((canFlowInto(below) || below.type === type) && level !== 0) return;
+
+  if (level === FALLING_LEVEL) level = 0;
+  const next = level + FLUIDS[type].levelStep;
+  if (next > MAX_FLUID_LEVEL) return;
+  for (const [dx, dz] of HORIZONTAL) {
+    if (canFlowInto(world.getBlock(x + dx, y, z + dz))) world.setBlock(x + dx, y, z + dz, { type, level: next });
+  }
+};
@@ -0,0 +1,17 @@
+export interface GameRules {
+  // Random blocks ticked per chunk section each game tick; 0 stops grass, leaves and saplings.
+  randomTickSpeed: number;
+}
+
+export type GameRuleName = keyof GameRules;
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  randomTickSpeed: 1,
+};
+
+export const GAME_RULE_LIMITS: Record<GameRuleName, { min: number; max: number }> = {
+  randomTickSpeed: { min: 0, max: 64 },
+};
+
+export const isGameRuleName = (name: string): name is GameRuleName =>
+  Object.prototype.hasOwnProperty.call(DEFAULT_GAME_RULES, name);
@@ -0,0 +1,75 @@
+import type { BLOCK_REGISTRY, ITEM_REGISTRY } from '@/lib/blocks';
+
+// Every block and item is declared by its entry in the registry.
+export type BlockType = keyof typeof BLOCK_REGISTRY;
+
+// Everything that fits in an inventory slot: placeable blocks plus items that only come from mining.
+export type ItemType = BlockType | keyof typeof ITEM_REGISTRY;
+
+export interface Block {
+  type: BlockType;
+  // Fluids: missing or 0 for a source, 1–7 for flowing fluid further from it, 8 for a falling column.
+  // Snow layers count their layers, fire its age and leaves are marked when placed by the player.
+  level?: number;
+}
+
+export interface TNTEntity {
+  x: number;
+  y: number;
+  z: number;
+  velX: number;
+  velY: number;
+  velZ: number;
+  fuse: number;
+}
+
+export interface FallingBlockEntity {
+  x: number;
+  y: number;
+  z: number;
+  velY: number;
+  type: BlockType;
+}
+
+// A dropped stack lying in the world until someone picks it up.
+export interface ItemEntity {
+  x: number;
+  y: number;
+  z: number;
+  velX: number;
+  velY: number;
+  velZ: number;
+  type: ItemType;
+  count: number;
+  // Game ticks since it was dropped.
+  age: number;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  z: number;
+  // Horizontal velocity only comes from being pushed, e.g. by explosions; walking moves the player directly.
+  velX: number;
+  velY: number;
+  velZ: number;
+  health: number;
+  angleX: number;
+  angleY: number;
+  selectedSlot: number;
+  onGround: boolean;
+  mode: 'survival' | 'creative';
+}
+
+export interface InventorySlot {
+  type: ItemType | null;
+  count: number;
+}
+
+export interface GraphicsSettings {
+  renderDistance: number;
+  fov: number;
+  rayDensity: number;
+  shadows: boolean;
+  chunkMemoryMb: number;
+}
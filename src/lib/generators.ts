@@ -0,0 +1,321 @@
+import type { BlockType } from '@/lib/game-types';
+import { BIOMES, BIOME_IDS } from '@/lib/biomes';
+import { BLOCK_PALETTE, CHUNK_SIZE, DEFAULT_WORLD_HEIGHT, MAX_WORLD_HEIGHT, compactChunk, createChunk, setChunkBlock, type Chunk } from '@/lib/chunk';
+import { placeFeatures } from '@/lib/features';
+import { getHeightmapHeight, type HeightmapSettings } from '@/lib/heightmap';
+import { createNoise2D, createNoise3D, fractal2D, fractal3D } from '@/lib/noise';
+import { placeOres } from '@/lib/ores';
+import { hashCoords } from '@/lib/random';
+import { generateTerrain, getTerrainHeight, type TerrainColumn } from '@/lib/terrain';
+import { DEFAULT_TERRAIN_CONFIG, type TerrainConfig } from '@/lib/terrain-config';
+
+export type WorldPresetId = 'default' | 'amplified' | 'superflat' | 'void' | 'islands' | 'heightmap';
+
+export interface FlatLayer {
+  type: BlockType;
+  thickness: number;
+}
+
+// Stored with the world and sent to the terrain workers, so it has to stay plain data.
+export interface GeneratorSettings {
+  preset: WorldPresetId;
+  // Superflat only, bottom to top.
+  layers?: FlatLayer[];
+  // Default and amplified only; missing in worlds created before configs existed.
+  config?: TerrainConfig;
+  // Heightmap only.
+  heightmap?: HeightmapSettings;
+}
+
+export interface SpawnPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TerrainGenerator {
+  generate: (chunkX: number, chunkZ: number) => Chunk;
+  getSpawnPoint: () => SpawnPoint;
+}
+
+export interface WorldPreset {
+  id: WorldPresetId;
+  name: string;
+  description: string;
+  // Whether the preset reads `GeneratorSettings.config`.
+  configurable: boolean;
+  create: (seed: number, settings: GeneratorSettings, worldHeight: number) => TerrainGenerator;
+}
+
+export const DEFAULT_GENERATOR: GeneratorSettings = { preset: 'default' };
+
+// Saved with each world. Saves only keep edits on top of regenerated terrain, so this goes up with every
+// change that alters the terrain an existing seed and settings produce. Worlds from a newer version are
+// not opened; older ones are not migrated and replay their edits onto the new terrain.
+export const GENERATOR_VERSION = 2;
+
+export const DEFAULT_FLAT_LAYERS: FlatLayer[] = [
+  { type: 'bedrock', thickness: 1 },
+  { type: 'stone', thickness: 3 },
+  { type: 'dirt', thickness: 2 },
+  { type: 'grass', thickness: 1 },
+];
+
+const AMPLIFIED_HEIGHT_SCALE = 1.8;
+// Taller worlds stretch amplified terrain further to make use of the extra room.
+const getAmplifiedScale = (worldHeight: number) => AMPLIFIED_HEIGHT_SCALE * Math.sqrt(worldHeight / DEFAULT_WORLD_HEIGHT);
+const PLATFORM_Y = 32;
+const PLATFORM_RADIUS = 2;
+
+const fillBiome = (chunk: Chunk, biome: number) => {
+  chunk.biomes.fill(biome);
+  return chunk;
+};
+
+const createDefaultGenerator = (
+  seed: number,
+  settings: GeneratorSettings,
+  worldHeight: number,
+  heightScale: number,
+): TerrainGenerator => {
+  const base = settings.config ?? DEFAULT_TERRAIN_CONFIG;
+  const config = heightScale === 1 ? base : { ...base, heightScale: base.heightScale * heightScale };
+  return {
+    generate: (chunkX, chunkZ) => generateTerrain(seed, chunkX, chunkZ, config, worldHeight),
+    getSpawnPoint: () => ({ x: 8, y: getTerrainHeight(seed, 8, 8, config, worldHeight) + 2, z: 8 }),
+  };
+};
+
+const createFlatGenerator = (settings: GeneratorSettings, worldHeight: number): TerrainGenerator => {
+  const layers = settings.layers ?? DEFAULT_FLAT_LAYERS;
+  const column: BlockType[] = [];
+  for (const layer of layers) {
+    for (let i = 0; i < layer.thickness && column.length < worldHeight; i++) column.push(layer.type);
+  }
+
+  return {
+    generate: () => {
+      const chunk = fillBiome(createChunk(worldHeight), BIOME_IDS.plains);
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+          column.forEach((type, y) => setChunkBlock(chunk, x, y, z, type));
+        }
+      }
+      return chunk;
+    },
+    getSpawnPoint: () => ({ x: 8, y: column.length + 2, z: 8 }),
+  };
+};
+
+const createVoidGenerator = (worldHeight: number): TerrainGenerator => ({
+  generate: (chunkX, chunkZ) => {
+    const chunk = fillBiome(createChunk(worldHeight), BIOME_IDS.plains);
+    if (chunkX === 0 && chunkZ === 0) {
+      for (let dx = -PLATFORM_RADIUS; dx <= PLATFORM_RADIUS; dx++) {
+        for (let dz = -PLATFORM_RADIUS; dz <= PLATFORM_RADIUS; dz++) {
+          setChunkBlock(chunk, 8 + dx, PLATFORM_Y, 8 + dz, 'cobblestone');
+        }
+      }
+    }
+    return chunk;
+  },
+  getSpawnPoint: () => ({ x: 8.5, y: PLATFORM_Y + 3, z: 8.5 }),
+});
+
+// Islands are where 3D noise, pulled towards a band around ISLAND_CENTER_Y, rises above zero.
+// A 2D mask keeps wide gaps of open sky between island clusters.
+const ISLAND_CENTER_Y = 36;
+const ISLAND_MIN_Y = 12;
+const ISLAND_MAX_Y = 58;
+
+const createIslandsGenerator = (seed: number, worldHeight: number): TerrainGenerator => {
+  const density = createNoise3D(hashCoords(seed, 40));
+  const mask = createNoise2D(hashCoords(seed, 41));
+  const biome = BIOMES[BIOME_IDS.forest];
+
+  const isSolid = (x: number, y: number, z: number, clusters: number) =>
+    fractal3D(density, x, y, z, { frequency: 0.04, octaves: 3 }) + clusters - Math.abs(y - ISLAND_CENTER_Y) / 12 > 0.2;
+
+  // Highest solid block of the column, or -1 when the column is open sky.
+  const getIslandTop = (x: number, z: number) => {
+    const clusters = fractal2D(mask, x, z, { frequency: 0.012, octaves: 2 }) * 0.8;
+    if (clusters < -0.4) return -1;
+    for (let y = ISLAND_MAX_Y; y >= ISLAND_MIN_Y; y--) {
+      if (isSolid(x, y, z, clusters)) return y;
+    }
+    return -1;
+  };
+
+  const sampleColumn = (x: number, z: number): TerrainColumn => {
+    const top = getIslandTop(x, z);
+    return { height: top + 1, biome, surface: 'grass', subsurface: 'dirt', submerged: top < 0 };
+  };
+
+  return {
+    generate: (chunkX, chunkZ) => {
+      const chunk = fillBiome(createChunk(worldHeight), BIOME_IDS.forest);
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+          const worldX = chunkX * CHUNK_SIZE + x;
+          const worldZ = chunkZ * CHUNK_SIZE + z;
+          const clusters = fractal2D(mask, worldX, worldZ, { frequency: 0.012, octaves: 2 }) * 0.8;
+          if (clusters < -0.4) continue;
+
+          let depth = 0;
+          for (let y = ISLAND_MAX_Y; y >= ISLAND_MIN_Y; y--) {
+            if (!isSolid(worldX, y, worldZ, clusters)) {
+              depth = 0;
+              continue;
+            }
+            setChunkBlock(chunk, x, y, z, depth === 0 ? 'grass' : depth < 3 ? 'dirt' : 'stone');
+            depth++;
+          }
+        }
+      }
+      placeOres(chunk, seed, chunkX, chunkZ);
+      placeFeatures(chunk, seed, chunkX, chunkZ, sampleColumn);
+      return chunk;
+    },
+    getSpawnPoint: () => {
+      for (let radius = 0; radius <= 96; radius += 4) {
+        for (let dx = -radius; dx <= radius; dx += 4) {
+          for (let dz = -radius; dz <= radius; dz += 4) {
+            if (Math.max(Math.abs(dx), Math.abs(dz)) !== radius) continue;
+            const top = getIslandTop(8 + dx, 8 + dz);
+            if (top >= 0) return { x: 8.5 + dx, y: top + 3, z: 8.5 + dz };
+          }
+        }
+      }
+      return { x: 8.5, y: ISLAND_CENTER_Y, z: 8.5 };
+    },
+  };
+};
+
+// Columns this much higher than a neighbour are bare rock.
+const STEEP_SLOPE = 3;
+
+const createHeightmapGenerator = (seed: number, settings: GeneratorSettings, worldHeight: number): TerrainGenerator => {
+  const heightmap = settings.heightmap;
+  if (!heightmap) return createFlatGenerator(settings, worldHeight);
+  const seaLevel = Math.min(heightmap.seaLevel, worldHeight);
+  const getHeight = (x: number, z: number) => getHeightmapHeight(heightmap, x, z, worldHeight);
+  const snowLine = seaLevel + Math.max(6, Math.round(heightmap.scale * 0.6));
+  const biome = BIOMES[BIOME_IDS.plains];
+
+  const sampleColumn = (x: number, z: number): TerrainColumn => {
+    const height = getHeight(x, z);
+    const slope = Math.max(
+      Math.abs(height - getHeight(x + 1, z)),
+      Math.abs(height - getHeight(x - 1, z)),
+      Math.abs(height - getHeight(x, z + 1)),
+      Math.abs(height - getHeight(x, z - 1)),
+    );
+    let surface: BlockType = 'grass';
+    let subsurface: BlockType = 'dirt';
+    if (height <= seaLevel + 1) {
+      surface = 'sand';
+      subsurface = 'sand';
+    } else if (slope >= STEEP_SLOPE) {
+      surface = 'stone';
+      subsurface = 'stone';
+    } else if (height >= snowLine) {
+      surface = 'snow';
+    }
+    return { height, biome, surface, subsurface, submerged: height < seaLevel };
+  };
+
+  return {
+    generate: (chunkX, chunkZ) => {
+      const chunk = fillBiome(createChunk(worldHeight), BIOME_IDS.plains);
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        for (let z = 0; z < CHUNK_SIZE; z++) {
+          const { height, surface, subsurface } = sampleColumn(chunkX * CHUNK_SIZE + x, chunkZ * CHUNK_SIZE + z);
+          for (let y = 0; y < height; y++) {
+            const type = y === 0 ? 'bedrock' : y < height - 4 ? 'stone' : y < height - 1 ? subsurface : surface;
+            setChunkBlock(chunk, x, y, z, type);
+          }
+          for (let y = height; y < seaLevel; y++) {
+            setChunkBlock(chunk, x, y, z, 'water');
+          }
+        }
+      }
+      placeOres(chunk, seed, chunkX, chunkZ);
+      placeFeatures(chunk, seed, chunkX, chunkZ, sampleColumn);
+      return chunk;
+    },
+    getSpawnPoint: () => {
+      const x = Math.floor(heightmap.width / 2);
+      const z = Math.floor(heightmap.depth / 2);
+      return { x: x + 0.5, y: Math.max(getHeight(x, z), seaLevel) + 2, z: z + 0.5 };
+    },
+  };
+};
+
+export const WORLD_PRESETS: WorldPreset[] = [
+  {
+    id: 'default',
+    name: 'Обычный',
+    description: 'Биомы, пещеры и постройки',
+    configurable: true,
+    create: (seed, settings, worldHeight) => createDefaultGenerator(seed, settings, worldHeight, 1),
+  },
+  {
+    id: 'amplified',
+    name: 'Усиленный',
+    description: 'Те же биомы, но с вытянутым рельефом и высокими горами',
+    configurable: true,
+    create: (seed, settings, worldHeight) => createDefaultGenerator(seed, settings, worldHeight, getAmplifiedScale(worldHeight)),
+  },
+  {
+    id: 'superflat',
+    name: 'Суперплоский',
+    description: 'Ровные слои блоков — для строительства и опытов с TNT',
+    configurable: false,
+    create: (_seed, settings, worldHeight) => createFlatGenerator(settings, worldHeight),
+  },
+  {
+    id: 'void',
+    name: 'Пустота',
+    description: 'Пустой мир с небольшой платформой на точке появления',
+    configurable: false,
+    create: (_seed, _settings, worldHeight) => createVoidGenerator(worldHeight),
+  },
+  {
+    id: 'islands',
+    name: 'Парящие острова',
+    description: 'Острова в небе над бездной',
+    configurable: false,
+    create: (seed, _settings, worldHeight) => createIslandsGenerator(seed, worldHeight),
+  },
+  {
+    id: 'heightmap',
+    name: 'Карта высот',
+    description: 'Рельеф из загруженного чёрно-белого изображения',
+    configurable: false,
+    create: (seed, settings, worldHeight) => createHeightmapGenerator(seed, settings, worldHeight),
+  },
+];
+
+export const getWorldPreset = (id: WorldPresetId) => WORLD_PRESETS.find(preset => preset.id === id) ?? WORLD_PRESETS[0];
+
+export const createGenerator = (seed: number, settings: GeneratorSettings, worldHeight = DEFAULT_WORLD_HEIGHT): TerrainGenerator => {
+  const generator = getWorldPreset(settings.preset).create(seed, settings, worldHeight);
+  return { ...generator, generate: (chunkX, chunkZ) => compactChunk(generator.generate(chunkX, chunkZ)) };
+};
+
+// Accepts "bedrock,3*dirt,grass" (bottom to top), returning null when a block name is unknown.
+export const parseFlatLayers = (text: string): FlatLayer[] | null => {
+  const layers: FlatLayer[] = [];
+  for (const part of text.split(',').map(item => item.trim()).filter(Boolean)) {
+    const match = /^(?:(\d+)\s*\*\s*)?([a-z_]+)$/.exec(part);
+    if (!match) return null;
+    const type = match[2] as BlockType;
+    const thickness = match[1] ? parseInt(match[1], 10) : 1;
+    if (!BLOCK_PALETTE.includes(type) || thickness < 1 || thickness > MAX_WORLD_HEIGHT) return null;
+    layers.push({ type, thickness });
+  }
+  return layers.length > 0 ? layers : null;
+};
+
+export const formatFlatLayers = (layers: FlatLayer[]) =>
+  layers.map(layer => (layer.thickness > 1 ? `${layer.thickness}*${layer.type}` : layer.type)).join(',');
@@ -0,0 +1,54 @@
+export type HeightmapEdge = 'tile' | 'border';
+
+export interface HeightmapSettings {
+  width: number;
+  depth: number;
+  // One grey level (0–255) per pixel, row by row; rows run along z.
+  pixels: Uint8Array;
+  // Height in blocks of a white pixel above a black one.
+  scale: number;
+  seaLevel: number;
+  // Outside the image the map either repeats or turns into open sea.
+  edge: HeightmapEdge;
+}
+
+// Larger images are scaled down so the map stays cheap to store with the world and to send to workers.
+const MAX_HEIGHTMAP_SIZE = 1024;
+const MIN_HEIGHT = 1;
+
+export const decodeHeightmap = async (file: File): Promise<Pick<HeightmapSettings, 'width' | 'depth' | 'pixels'>> => {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, MAX_HEIGHTMAP_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * ratio));
+  const depth = Math.max(1, Math.round(bitmap.height * ratio));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = depth;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D is not available');
+  context.drawImage(bitmap, 0, 0, width, depth);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, depth);
+  const pixels = new Uint8Array(width * depth);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return { width, depth, pixels };
+};
+
+// Column height at a world position; bordered maps sink below sea level outside the image.
+export const getHeightmapHeight = (heightmap: HeightmapSettings, x: number, z: number, worldHeight: number) => {
+  const { width, depth, pixels, scale, seaLevel, edge } = heightmap;
+  let px = x;
+  let pz = z;
+  if (edge === 'tile') {
+    px = ((x % width) + width) % width;
+    pz = ((z % depth) + depth) % depth;
+  } else if (x < 0 || x >= width || z < 0 || z >= depth) {
+    return Math.max(MIN_HEIGHT, seaLevel - 6);
+  }
+  const height = MIN_HEIGHT + Math.round((pixels[pz * width + px] / 255) * scale);
+  return Math.min(worldHeight - 8, height);
+};
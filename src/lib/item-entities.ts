@@ -0,0 +1,51 @@
+import type { Block, ItemEntity, ItemType } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+import { TICKS_PER_SECOND } from '@/lib/day-night';
+import { GRAVITY, MAX_FALL_SPEED } from '@/lib/entity-physics';
+import type { WorldAccess } from '@/lib/fluids';
+
+// Distance from the player's feet within which dropped items are picked up.
+export const ITEM_PICKUP_RANGE = 1.5;
+
+const GROUND_FRICTION = 0.6;
+const ITEM_LIFETIME = 5 * 60 * TICKS_PER_SECOND;
+
+const isSolid = (block: Block) => block === UNLOADED_BLOCK || getBlockProperties(block.type).solid;
+
+// Drops a stack at the given point with a small random toss.
+export const createItemEntity = (x: number, y: number, z: number, type: ItemType, count: number): ItemEntity => ({
+  x,
+  y,
+  z,
+  velX: (Math.random() - 0.5) * 0.1,
+  velY: 0.1 + Math.random() * 0.1,
+  velZ: (Math.random() - 0.5) * 0.1,
+  type,
+  count,
+  age: 0,
+});
+
+// Moves the item one tick; returns true once it has despawned or fallen out of the world.
+export const stepItemEntity = (world: WorldAccess, item: ItemEntity) => {
+  item.age++;
+  const nextX = item.x + item.velX;
+  const nextZ = item.z + item.velZ;
+  if (isSolid(world.getBlock(Math.floor(nextX), Math.floor(item.y), Math.floor(item.z)))) item.velX = 0;
+  else item.x = nextX;
+  if (isSolid(world.getBlock(Math.floor(item.x), Math.floor(item.y), Math.floor(nextZ)))) item.velZ = 0;
+  else item.z = nextZ;
+
+  const velY = Math.max(item.velY - GRAVITY, -MAX_FALL_SPEED);
+  const nextY = item.y + velY;
+  if (isSolid(world.getBlock(Math.floor(item.x), Math.floor(nextY), Math.floor(item.z)))) {
+    if (velY < 0) item.y = Math.floor(nextY) + 1;
+    item.velY = 0;
+    item.velX *= GROUND_FRICTION;
+    item.velZ *= GROUND_FRICTION;
+  } else {
+    item.velY = velY;
+    item.y = nextY;
+  }
+  return item.age > ITEM_LIFETIME || item.y < 0;
+};
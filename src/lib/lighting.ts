@@ -0,0 +1,213 @@
+import type { Block } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import {
+  BLOCK_PALETTE,
+  CHUNK_SIZE,
+  OPEN_SKY_LIGHT,
+  getBlockId,
+  getChunkBlockId,
+  getChunkHeight,
+  getChunkLight,
+  getLocalIndex,
+  setChunkLight,
+  type Chunk,
+} from '@/lib/chunk';
+import type { ChunkManager } from '@/lib/chunk-manager';
+import { NEIGHBOURS, type WorldAccess } from '@/lib/fluids';
+
+export const MAX_LIGHT = 15;
+
+// Darkest a lit face gets, so unlit caves are hard to see but not pitch black.
+const MIN_BRIGHTNESS = 0.06;
+
+type LightChannel = 'sky' | 'block';
+
+export interface Lighting extends WorldAccess {
+  // Sky and block light packed like Chunk.light; read it with getSkyLight and getBlockLight.
+  getLight: (x: number, y: number, z: number) => number;
+  // Computes the light of a chunk that was just loaded and lets it flow across the borders with its neighbours.
+  lightChunk: (chunkX: number, chunkZ: number) => void;
+}
+
+const OPACITY = BLOCK_PALETTE.map(type => getBlockProperties(type).lightOpacity);
+const EMISSION = BLOCK_PALETTE.map(type => getBlockProperties(type).lightEmission);
+
+export const getSkyLight = (light: number) => light >> 4;
+export const getBlockLight = (light: number) => light & 15;
+
+// Screen brightness of a face lit with the given light; sky light fades with the time of day.
+export const getBrightness = (light: number, daylight: number, emission = 0) => {
+  const level = Math.max(getSkyLight(light) * daylight, getBlockLight(light), emission) / MAX_LIGHT;
+  return MIN_BRIGHTNESS + (1 - MIN_BRIGHTNESS) * level / (4 - 3 * level);
+};
+
+const readChannel = (light: number, channel: LightChannel) => (channel === 'sky' ? light >> 4 : light & 15);
+
+const writeChannel = (light: number, channel: LightChannel, value: number) =>
+  channel === 'sky' ? (light & 15) | (value << 4) : (light & 0xf0) | value;
+
+// Light reaching a neighbour from a block with the given level. Full sky light keeps going straight
+// down through blocks that do not dim it, which is what lights the ground under open sky.
+const getSpreadLevel = (channel: LightChannel, level: number, opacity: number, dy: number) => {
+  if (channel === 'sky' && level === MAX_LIGHT && opacity === 0 && dy === -1) return MAX_LIGHT;
+  return level - Math.max(1, opacity);
+};
+
+const toLocal = (coord: number) => ((coord % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
+
+export const createLighting = (world: ChunkManager): Lighting => {
+  const { height } = world;
+
+  const getChunkAt = (x: number, y: number, z: number): Chunk | null => {
+    if (y < 0 || y >= height) return null;
+    return world.getLoadedChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE));
+  };
+
+  const getLight = (x: number, y: number, z: number) => {
+    if (y >= height) return OPEN_SKY_LIGHT;
+    const chunk = getChunkAt(x, y, z);
+    return chunk ? getChunkLight(chunk, getLocalIndex(toLocal(x), y, toLocal(z))) : 0;
+  };
+
+  // Queues hold flat x, y, z triples.
+  const spread = (channel: LightChannel, queue: number[]) => {
+    for (let i = 0; i < queue.length; i += 3) {
+      const x = queue[i];
+      const y = queue[i + 1];
+      const z = queue[i + 2];
+      const level = readChannel(getLight(x, y, z), channel);
+      if (level <= 1) continue;
+
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const chunk = getChunkAt(x + dx, y + dy, z + dz);
+        if (!chunk) continue;
+        const index = getLocalIndex(toLocal(x + dx), y + dy, toLocal(z + dz));
+        const next = getSpreadLevel(channel, level, OPACITY[getChunkBlockId(chunk, index)], dy);
+        const light = getChunkLight(chunk, index);
+        if (next <= readChannel(light, channel)) continue;
+        setChunkLight(chunk, index, writeChannel(light, channel, next));
+        queue.push(x + dx, y + dy, z + dz);
+      }
+    }
+  };
+
+  // Darkens everything that was lit through the given blocks, then lets the remaining light flow back in.
+  const unspread = (channel: LightChannel, queue: number[], levels: number[]) => {
+    const refill: number[] = [];
+    for (let i = 0; i < queue.length; i += 3) {
+      const x = queue[i];
+      const y = queue[i + 1];
+      const z = queue[i + 2];
+      const level = levels[i / 3];
+
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const chunk = getChunkAt(x + dx, y + dy, z + dz);
+        if (!chunk) continue;
+        const index = getLocalIndex(toLocal(x + dx), y + dy, toLocal(z + dz));
+        const light = getChunkLight(chunk, index);
+        const neighbourLevel = readChannel(light, channel);
+        if (neighbourLevel === 0) continue;
+
+        const litFromHere = neighbourLevel < level ||
+          (channel === 'sky' && dy === -1 && level === MAX_LIGHT && neighbourLevel === MAX_LIGHT);
+        if (!litFromHere) {
+          refill.push(x + dx, y + dy, z + dz);
+          continue;
+        }
+        const emission = channel === 'block' ? EMISSION[getChunkBlockId(chunk, index)] : 0;
+        setChunkLight(chunk, index, writeChannel(light, channel, emission));
+        if (emission > 0) refill.push(x + dx, y + dy, z + dz);
+        queue.push(x + dx, y + dy, z + dz);
+        levels.push(neighbourLevel);
+      }
+    }
+    spread(channel, refill);
+  };
+
+  const relight = (x: number, y: number, z: number, chunk: Chunk, index: number) => {
+    const light = getChunkLight(chunk, index);
+    const emission = EMISSION[getChunkBlockId(chunk, index)];
+    (['sky', 'block'] as const).forEach(channel => {
+      const level = readChannel(light, channel);
+      setChunkLight(chunk, index, writeChannel(getChunkLight(chunk, index), channel, channel === 'block' ? emission : 0));
+      unspread(channel, [x, y, z], [level]);
+
+      // Whatever still lights the neighbours may now reach through the changed block.
+      const queue = [x, y, z];
+      NEIGHBOURS.forEach(([dx, dy, dz]) => queue.push(x + dx, y + dy, z + dz));
+      spread(channel, queue);
+    });
+  };
+
+  const setBlock = (x: number, y: number, z: number, block: Block) => {
+    const chunk = getChunkAt(x, y, z);
+    if (!chunk) return;
+    const index = getLocalIndex(toLocal(x), y, toLocal(z));
+    const previous = getChunkBlockId(chunk, index);
+    world.setBlock(x, y, z, block);
+
+    const id = getBlockId(block.type);
+    if (OPACITY[id] !== OPACITY[previous] || EMISSION[id] !== EMISSION[previous]) relight(x, y, z, chunk, index);
+  };
+
+  const lightChunk = (chunkX: number, chunkZ: number) => {
+    const chunk = world.getLoadedChunk(chunkX, chunkZ);
+    if (!chunk) return;
+    const chunkHeight = getChunkHeight(chunk);
+    chunk.light = chunk.light.map(() => null);
+    const originX = chunkX * CHUNK_SIZE;
+    const originZ = chunkZ * CHUNK_SIZE;
+    const skyQueue: number[] = [];
+    const blockQueue: number[] = [];
+
+    // Sky light falls straight down each column until something dims or stops it.
+    let highestGround = 0;
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        let level = MAX_LIGHT;
+        for (let y = chunkHeight - 1; y >= 0; y--) {
+          const index = getLocalIndex(x, y, z);
+          const id = getChunkBlockId(chunk, index);
+          level = Math.max(0, getSpreadLevel('sky', level, OPACITY[id], -1));
+          if (level < MAX_LIGHT) highestGround = Math.max(highestGround, y);
+          setChunkLight(chunk, index, (level << 4) | EMISSION[id]);
+          if (EMISSION[id] > 0) blockQueue.push(originX + x, y, originZ + z);
+        }
+      }
+    }
+
+    // From there it spreads sideways under overhangs and into caves. Above the highest ground every
+    // column is fully lit, so only the borders can still light a darker neighbour chunk.
+    for (let y = 0; y < chunkHeight; y++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        for (let x = 0; x < CHUNK_SIZE; x++) {
+          const isBorder = x === 0 || z === 0 || x === CHUNK_SIZE - 1 || z === CHUNK_SIZE - 1;
+          if (y > highestGround && !isBorder) continue;
+          const level = getSkyLight(getChunkLight(chunk, getLocalIndex(x, y, z)));
+          if (level <= 1) continue;
+          const darker = NEIGHBOURS.some(([dx, dy, dz]) => dy === 0 &&
+            getSkyLight(getLight(originX + x + dx, y, originZ + z + dz)) < level - 1);
+          if (darker) skyQueue.push(originX + x, y, originZ + z);
+        }
+      }
+    }
+
+    // Light already in the loaded neighbours flows in across the shared borders.
+    for (let i = 0; i < CHUNK_SIZE; i++) {
+      const borders = [[originX - 1, originZ + i], [originX + CHUNK_SIZE, originZ + i], [originX + i, originZ - 1], [originX + i, originZ + CHUNK_SIZE]];
+      borders.forEach(([x, z]) => {
+        if (!world.getLoadedChunk(Math.floor(x / CHUNK_SIZE), Math.floor(z / CHUNK_SIZE))) return;
+        for (let y = 0; y < chunkHeight; y++) {
+          const light = getLight(x, y, z);
+          if (getSkyLight(light) > 1) skyQueue.push(x, y, z);
+          if (getBlockLight(light) > 1) blockQueue.push(x, y, z);
+        }
+      });
+    }
+
+    spread('sky', skyQueue);
+    spread('block', blockQueue);
+  };
+
+  return { getBlock: world.getBlock, setBlock, getLight, lightChunk };
+};
@@ -0,0 +1,81 @@
+import type { InventorySlot, ItemType } from '@/lib/game-types';
+import { createRandom } from '@/lib/random';
+
+export const CHEST_SIZE = 27;
+
+export type LootTableId = 'ruins' | 'dungeon' | 'village';
+
+export interface LootEntry {
+  item: ItemType;
+  weight: number;
+  min: number;
+  max: number;
+}
+
+export interface LootTable {
+  minRolls: number;
+  maxRolls: number;
+  entries: LootEntry[];
+}
+
+export const LOOT_TABLES: Record<LootTableId, LootTable> = {
+  ruins: {
+    minRolls: 2,
+    maxRolls: 4,
+    entries: [
+      { item: 'coal', weight: 10, min: 1, max: 4 },
+      { item: 'cobblestone', weight: 6, min: 4, max: 12 },
+      { item: 'iron_ore', weight: 6, min: 1, max: 3 },
+      { item: 'tnt', weight: 3, min: 1, max: 2 },
+      { item: 'gold_ore', weight: 3, min: 1, max: 2 },
+      { item: 'diamond', weight: 1, min: 1, max: 1 },
+    ],
+  },
+  dungeon: {
+    minRolls: 3,
+    maxRolls: 6,
+    entries: [
+      { item: 'coal', weight: 8, min: 2, max: 8 },
+      { item: 'iron_ore', weight: 8, min: 1, max: 5 },
+      { item: 'tnt', weight: 5, min: 1, max: 3 },
+      { item: 'gold_ore', weight: 5, min: 1, max: 3 },
+      { item: 'diamond', weight: 2, min: 1, max: 2 },
+    ],
+  },
+  village: {
+    minRolls: 3,
+    maxRolls: 5,
+    entries: [
+      { item: 'planks', weight: 8, min: 4, max: 16 },
+      { item: 'wood', weight: 6, min: 2, max: 6 },
+      { item: 'glass', weight: 5, min: 2, max: 8 },
+      { item: 'coal', weight: 5, min: 1, max: 4 },
+      { item: 'brick', weight: 4, min: 4, max: 12 },
+      { item: 'iron_ore', weight: 3, min: 1, max: 2 },
+    ],
+  },
+};
+
+export const createEmptySlots = (size: number): InventorySlot[] =>
+  Array.from({ length: size }, () => ({ type: null, count: 0 }));
+
+// Each roll picks a weighted entry and drops its stack into a random free slot, like a freshly opened chest.
+export const rollLoot = (table: LootTable, seed: number): InventorySlot[] => {
+  const random = createRandom(seed);
+  const slots = createEmptySlots(CHEST_SIZE);
+  const totalWeight = table.entries.reduce((sum, entry) => sum + entry.weight, 0);
+  const rolls = table.minRolls + Math.floor(random() * (table.maxRolls - table.minRolls + 1));
+
+  for (let roll = 0; roll < rolls; roll++) {
+    let pick = random() * totalWeight;
+    const entry = table.entries.find(candidate => (pick -= candidate.weight) < 0) ?? table.entries[0];
+    const count = entry.min + Math.floor(random() * (entry.max - entry.min + 1));
+
+    const free = slots.filter(slot => slot.type === null);
+    if (free.length === 0) break;
+    const slot = free[Math.floor(random() * free.length)];
+    slot.type = entry.item;
+    slot.count = count;
+  }
+  return slots;
+};
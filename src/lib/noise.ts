@@ -0,0 +1,159 @@
+import { createRandom } from '@/lib/random';
+
+export type Noise2D = (x: number, z: number) => number;
+export type Noise3D = (x: number, y: number, z: number) => number;
+
+export interface FractalOptions {
+  frequency: number;
+  octaves: number;
+  lacunarity?: number;
+  persistence?: number;
+}
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+const GRADIENTS_3D = [
+  [1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+  [1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+  [0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+];
+
+const createPermutation = (seed: number): Uint8Array => {
+  const random = createRandom(seed);
+  const source = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) source[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [source[i], source[j]] = [source[j], source[i]];
+  }
+
+  const permutation = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) permutation[i] = source[i & 255];
+  return permutation;
+};
+
+// Simplex noise in the range [-1, 1] (Gustavson's reference implementation, seeded by shuffling the permutation table).
+export const createNoise2D = (seed: number): Noise2D => {
+  const perm = createPermutation(seed);
+
+  const corner = (gi: number, x: number, y: number) => {
+    const t = 0.5 - x * x - y * y;
+    if (t < 0) return 0;
+    const g = GRADIENTS_3D[gi % 12];
+    return t * t * t * t * (g[0] * x + g[1] * y);
+  };
+
+  return (xin, yin) => {
+    const s = (xin + yin) * F2;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const t = (i + j) * G2;
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const n0 = corner(perm[ii + perm[jj]], x0, y0);
+    const n1 = corner(perm[ii + i1 + perm[jj + j1]], x1, y1);
+    const n2 = corner(perm[ii + 1 + perm[jj + 1]], x2, y2);
+    return 70 * (n0 + n1 + n2);
+  };
+};
+
+export const createNoise3D = (seed: number): Noise3D => {
+  const perm = createPermutation(seed);
+
+  const corner = (gi: number, x: number, y: number, z: number) => {
+    const t = 0.6 - x * x - y * y - z * z;
+    if (t < 0) return 0;
+    const g = GRADIENTS_3D[gi % 12];
+    return t * t * t * t * (g[0] * x + g[1] * y + g[2] * z);
+  };
+
+  return (xin, yin, zin) => {
+    const s = (xin + yin + zin) * F3;
+    const i = Math.floor(xin + s);
+    const j = Math.floor(yin + s);
+    const k = Math.floor(zin + s);
+    const t = (i + j + k) * G3;
+    const x0 = xin - (i - t);
+    const y0 = yin - (j - t);
+    const z0 = zin - (k - t);
+
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+      else if (x0 >= z0) { i1 = 1; j1 = 0; k1 = 0; i2 = 1; j2 = 0; k2 = 1; }
+      else { i1 = 0; j1 = 0; k1 = 1; i2 = 1; j2 = 0; k2 = 1; }
+    } else {
+      if (y0 < z0) { i1 = 0; j1 = 0; k1 = 1; i2 = 0; j2 = 1; k2 = 1; }
+      else if (x0 < z0) { i1 = 0; j1 = 1; k1 = 0; i2 = 0; j2 = 1; k2 = 1; }
+      else { i1 = 0; j1 = 1; k1 = 0; i2 = 1; j2 = 1; k2 = 0; }
+    }
+
+    const x1 = x0 - i1 + G3;
+    const y1 = y0 - j1 + G3;
+    const z1 = z0 - k1 + G3;
+    const x2 = x0 - i2 + 2 * G3;
+    const y2 = y0 - j2 + 2 * G3;
+    const z2 = z0 - k2 + 2 * G3;
+    const x3 = x0 - 1 + 3 * G3;
+    const y3 = y0 - 1 + 3 * G3;
+    const z3 = z0 - 1 + 3 * G3;
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const n0 = corner(perm[ii + perm[jj + perm[kk]]], x0, y0, z0);
+    const n1 = corner(perm[ii + i1 + perm[jj + j1 + perm[kk + k1]]], x1, y1, z1);
+    const n2 = corner(perm[ii + i2 + perm[jj + j2 + perm[kk + k2]]], x2, y2, z2);
+    const n3 = corner(perm[ii + 1 + perm[jj + 1 + perm[kk + 1]]], x3, y3, z3);
+    return 32 * (n0 + n1 + n2 + n3);
+  };
+};
+
+// Sums octaves of `noise`, each `lacunarity` times finer and `persistence` times weaker, normalised back to [-1, 1].
+export const fractal2D = (noise: Noise2D, x: number, z: number, options: FractalOptions): number => {
+  const { frequency, octaves, lacunarity = 2, persistence = 0.5 } = options;
+  let total = 0;
+  let amplitude = 1;
+  let scale = frequency;
+  let max = 0;
+  for (let octave = 0; octave < octaves; octave++) {
+    total += noise(x * scale, z * scale) * amplitude;
+    max += amplitude;
+    amplitude *= persistence;
+    scale *= lacunarity;
+  }
+  return total / max;
+};
+
+export const fractal3D = (noise: Noise3D, x: number, y: number, z: number, options: FractalOptions): number => {
+  const { frequency, octaves, lacunarity = 2, persistence = 0.5 } = options;
+  let total = 0;
+  let amplitude = 1;
+  let scale = frequency;
+  let max = 0;
+  for (let octave = 0; octave < octaves; octave++) {
+    total += noise(x * scale, y * scale, z * scale) * amplitude;
+    max += amplitude;
+    amplitude *= persistence;
+    scale *= lacunarity;
+  }
+  return total / max;
+};
+
+export const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = Math.max(0, Math.min(1, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
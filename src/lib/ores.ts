@@ -0,0 +1,47 @@
+import type { BlockType } from '@/lib/game-types';
+import { CHUNK_SIZE, getBlockId, getChunkBlockId, getLocalIndex, setChunkBlockId, type Chunk } from '@/lib/chunk';
+import { createRandom, hashCoords } from '@/lib/random';
+
+interface OreVein {
+  type: BlockType;
+  // Veins are attempted this many times per chunk, starting between minY and maxY.
+  attempts: number;
+  minY: number;
+  maxY: number;
+  size: number;
+}
+
+const ORE_VEINS: readonly OreVein[] = [
+  { type: 'coal_ore', attempts: 18, minY: 5, maxY: 52, size: 10 },
+  { type: 'iron_ore', attempts: 10, minY: 1, maxY: 36, size: 7 },
+  { type: 'gold_ore', attempts: 3, minY: 1, maxY: 18, size: 6 },
+  { type: 'diamond_ore', attempts: 1, minY: 1, maxY: 10, size: 5 },
+];
+
+const STONE = getBlockId('stone');
+
+// Each vein is a short random walk that only replaces stone, so ores never show up in dirt or float in caves.
+export const placeOres = (chunk: Chunk, seed: number, chunkX: number, chunkZ: number) => {
+  const random = createRandom(hashCoords(seed, chunkX, chunkZ, 20));
+
+  for (const vein of ORE_VEINS) {
+    const ore = getBlockId(vein.type);
+    for (let attempt = 0; attempt < vein.attempts; attempt++) {
+      let x = Math.floor(random() * CHUNK_SIZE);
+      let y = vein.minY + Math.floor(random() * (vein.maxY - vein.minY + 1));
+      let z = Math.floor(random() * CHUNK_SIZE);
+
+      for (let i = 0; i < vein.size; i++) {
+        if (x >= 0 && x < CHUNK_SIZE && z >= 0 && z < CHUNK_SIZE && y >= vein.minY && y <= vein.maxY) {
+          const index = getLocalIndex(x, y, z);
+          if (getChunkBlockId(chunk, index) === STONE) setChunkBlockId(chunk, index, ore);
+        }
+        const axis = Math.floor(random() * 3);
+        const step = random() < 0.5 ? -1 : 1;
+        if (axis === 0) x += step;
+        else if (axis === 1) y += step;
+        else z += step;
+      }
+    }
+  }
+};
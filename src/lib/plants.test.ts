@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CHUNK_SIZE, getChunkHeight } from '@/lib/chunk';
+import { createChunkManager } from '@/lib/chunk-manager';
+import { createGenerator, type WorldPresetId } from '@/lib/generators';
+import { decayLeaves, updateGrass, type PlantWorld } from '@/lib/plants';
+
+const WORLD_HEIGHT = 128;
+// Chunks around the origin that are checked; one more ring is loaded so edge lookups see real terrain.
+const RADIUS = 1;
+
+const loadWorld = (seed: number, preset: WorldPresetId) => {
+  const generator = createGenerator(seed, { preset }, WORLD_HEIGHT);
+  const world = createChunkManager({
+    request: (chunkX, chunkZ) => {
+      world.receiveChunk(chunkX, chunkZ, generator.generate(chunkX, chunkZ));
+    },
+    cancel: () => {},
+    setFocus: () => {},
+    terminate: () => {},
+  }, WORLD_HEIGHT);
+  for (let chunkX = -RADIUS - 1; chunkX <= RADIUS + 1; chunkX++) {
+    for (let chunkZ = -RADIUS - 1; chunkZ <= RADIUS + 1; chunkZ++) world.getChunk(chunkX, chunkZ);
+  }
+  return world;
+};
+
+// Runs the grass and leaf handlers once on every block of freshly generated chunks. The world is kept
+// dark so growth, which only needs time, stays out of it; what is left would undo the generator's work.
+const collectRandomTickChanges = (seed: number, preset: WorldPresetId) => {
+  const world = loadWorld(seed, preset);
+  const changes: string[] = [];
+  const plantWorld: PlantWorld = {
+    getBlock: world.getBlock,
+    setBlock: (x, y, z, block) => changes.push(`${world.getBlock(x, y, z).type} -> ${block.type} at ${x},${y},${z}`),
+    getLight: () => 0,
+  };
+
+  for (let chunkX = -RADIUS; chunkX <= RADIUS; chunkX++) {
+    for (let chunkZ = -RADIUS; chunkZ <= RADIUS; chunkZ++) {
+      const height = getChunkHeight(world.getLoadedChunk(chunkX, chunkZ)!);
+      for (let x = chunkX * CHUNK_SIZE; x < (chunkX + 1) * CHUNK_SIZE; x++) {
+        for (let z = chunkZ * CHUNK_SIZE; z < (chunkZ + 1) * CHUNK_SIZE; z++) {
+          for (let y = 0; y < height; y++) {
+            const block = world.getBlock(x, y, z);
+            if (block.type === 'grass') updateGrass(plantWorld, x, y, z);
+            else if (block.type === 'leaves') decayLeaves(plantWorld, x, y, z, block);
+          }
+        }
+      }
+    }
+  }
+  return changes;
+};
+
+describe('random ticks on generated terrain', () => {
+  it.each<[number, WorldPresetId]>([
+    [12345, 'default'],
+    [12345, 'amplified'],
+    [777, 'default'],
+    [2024, 'islands'],
+  ])('change nothing at t=0 for seed %i, %s preset', (seed, preset) => {
+    expect(collectRandomTickChanges(seed, preset)).toEqual([]);
+  });
+});
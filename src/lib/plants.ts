@@ -0,0 +1,88 @@
+import type { Block } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+import { TREE_FEATURE, type FeatureWriter } from '@/lib/features';
+import { NEIGHBOURS, isFluid, type WorldAccess } from '@/lib/fluids';
+import { getBlockLight, getSkyLight, type Lighting } from '@/lib/lighting';
+
+export interface PlantWorld extends WorldAccess {
+  getLight: Lighting['getLight'];
+}
+
+// Light needed above grass for it to spread, and above dirt for it to take root.
+const GRASS_SPREAD_LIGHT = 9;
+const GRASS_ROOT_LIGHT = 4;
+const SAPLING_GROWTH_LIGHT = 9;
+const SAPLING_GROWTH_CHANCE = 1 / 7;
+// Leaves further than this from any wood, counted through other leaves, decay.
+const MAX_LEAF_DISTANCE = 4;
+// Level of leaves placed by the player; they never decay.
+export const PERSISTENT_LEAVES = 1;
+
+const getLightLevel = (world: PlantWorld, x: number, y: number, z: number) => {
+  const light = world.getLight(x, y, z);
+  return Math.max(getSkyLight(light), getBlockLight(light));
+};
+
+// Grass needs air or another thin block above it; anything that smothers it turns it back into dirt.
+const isCovered = (block: Block) => isFluid(block.type) || getBlockProperties(block.type).lightOpacity > 2;
+
+export const updateGrass = (world: PlantWorld, x: number, y: number, z: number) => {
+  if (isCovered(world.getBlock(x, y + 1, z))) {
+    world.setBlock(x, y, z, { type: 'dirt' });
+    return;
+  }
+  if (getLightLevel(world, x, y + 1, z) < GRASS_SPREAD_LIGHT) return;
+
+  const targetX = x + Math.floor(Math.random() * 3) - 1;
+  const targetY = y + Math.floor(Math.random() * 5) - 3;
+  const targetZ = z + Math.floor(Math.random() * 3) - 1;
+  if (world.getBlock(targetX, targetY, targetZ).type !== 'dirt') return;
+  if (isCovered(world.getBlock(targetX, targetY + 1, targetZ))) return;
+  if (getLightLevel(world, targetX, targetY + 1, targetZ) < GRASS_ROOT_LIGHT) return;
+  world.setBlock(targetX, targetY, targetZ, { type: 'grass' });
+};
+
+// Walks through connected leaves looking for wood within MAX_LEAF_DISTANCE. A search that runs into
+// a chunk that is not loaded counts as attached, since the trunk may be in there.
+const isAttachedToWood = (world: PlantWorld, x: number, y: number, z: number) => {
+  const visited = new Set([`${x},${y},${z}`]);
+  let frontier: [number, number, number][] = [[x, y, z]];
+  for (let distance = 1; distance <= MAX_LEAF_DISTANCE && frontier.length > 0; distance++) {
+    const next: [number, number, number][] = [];
+    for (const [fx, fy, fz] of frontier) {
+      for (const [dx, dy, dz] of NEIGHBOURS) {
+        const key = `${fx + dx},${fy + dy},${fz + dz}`;
+        if (visited.has(key)) continue;
+        visited.add(key);
+        const block = world.getBlock(fx + dx, fy + dy, fz + dz);
+        if (block === UNLOADED_BLOCK) return true;
+        const type = block.type;
+        if (type === 'wood') return true;
+        if (type === 'leaves') next.push([fx + dx, fy + dy, fz + dz]);
+      }
+    }
+    frontier = next;
+  }
+  return false;
+};
+
+export const decayLeaves = (world: PlantWorld, x: number, y: number, z: number, block: Block) => {
+  if (block.level !== PERSISTENT_LEAVES && !isAttachedToWood(world, x, y, z)) world.setBlock(x, y, z, { type: 'air' });
+};
+
+// Saplings on soil grow into the same trees the generator places.
+export const growSapling = (world: PlantWorld, x: number, y: number, z: number) => {
+  const soil = world.getBlock(x, y - 1, z).type;
+  if (soil !== 'grass' && soil !== 'dirt') return;
+  if (Math.random() > SAPLING_GROWTH_CHANCE || getLightLevel(world, x, y + 1, z) < SAPLING_GROWTH_LIGHT) return;
+
+  const writer: FeatureWriter = {
+    set: (bx, by, bz, type, replace = ['air']) => {
+      if (replace.includes(world.getBlock(bx, by, bz).type)) world.setBlock(bx, by, bz, { type });
+    },
+    setLoot: () => {},
+  };
+  world.setBlock(x, y, z, { type: 'air' });
+  TREE_FEATURE.place(writer, x, y, z, Math.random);
+};
@@ -0,0 +1,36 @@
+import type { Block, BlockType } from '@/lib/game-types';
+import { BLOCK_PALETTE, CHUNK_SIZE, SECTION_VOLUME, readChunkBlock } from '@/lib/chunk';
+import type { ChunkManager } from '@/lib/chunk-manager';
+import { decayLeaves, growSapling, updateGrass, type PlantWorld } from '@/lib/plants';
+
+type RandomTickHandler = (world: PlantWorld, x: number, y: number, z: number, block: Block) => void;
+
+const RANDOM_TICK_HANDLERS: Partial<Record<BlockType, RandomTickHandler>> = {
+  grass: updateGrass,
+  leaves: decayLeaves,
+  sapling: growSapling,
+};
+
+// Indexed by block id so the hot loop skips inert blocks with a single lookup.
+const HANDLERS = BLOCK_PALETTE.map(type => RANDOM_TICK_HANDLERS[type]);
+
+// Picks `speed` random blocks in every non-empty section of every loaded chunk and runs their
+// handler. Handlers change blocks through `world`, so the changes are lit and scheduled as usual.
+export const runRandomTicks = (chunks: ChunkManager, world: PlantWorld, speed: number) => {
+  chunks.forEachChunk((chunkX, chunkZ, chunk) => {
+    chunk.sections.forEach((section, sectionIndex) => {
+      if (!section) return;
+      for (let i = 0; i < speed; i++) {
+        const offset = Math.floor(Math.random() * SECTION_VOLUME);
+        const handler = HANDLERS[section[offset]];
+        if (!handler) continue;
+
+        const index = sectionIndex * SECTION_VOLUME + offset;
+        const x = chunkX * CHUNK_SIZE + (index % CHUNK_SIZE);
+        const z = chunkZ * CHUNK_SIZE + (Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE);
+        const y = Math.floor(index / (CHUNK_SIZE * CHUNK_SIZE));
+        handler(world, x, y, z, readChunkBlock(chunk, index));
+      }
+    });
+  });
+};
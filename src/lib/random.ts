@@ -0,0 +1,38 @@
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const hashCoords = (seed: number, ...coords: number[]): number => {
+  let hash = seed >>> 0;
+  for (const coord of coords) {
+    hash = Math.imul(hash ^ (coord | 0), 0x9e3779b1);
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+  }
+  return hash >>> 0;
+};
+
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const parseSeed = (input: string): number => {
+  const text = input.trim();
+  if (!text) return randomSeed();
+  if (/^-?\d+$/.test(text)) return Number(BigInt.asUintN(32, BigInt(text)));
+  return hashString(text);
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,274 @@
+import type { BlockType } from '@/lib/game-types';
+import { BLOCK_PALETTE } from '@/lib/chunk';
+import type { BiomeId } from '@/lib/biomes';
+import type { Feature, FeatureRule } from '@/lib/features';
+import type { LootTableId } from '@/lib/loot';
+
+// Layers go bottom to top; each layer is a list of rows along z and each character is one block along x.
+// A space leaves the generated terrain untouched, '.' clears it to air.
+export interface StructureTemplate {
+  id: string;
+  layers: string[][];
+  // Height of the bottom layer relative to the first air block above the surface.
+  offsetY: number;
+  placement: 'surface' | 'underground';
+  // Chance per chunk to start the structure, by the biome at its origin.
+  weights: Partial<Record<BiomeId, number>>;
+  loot: LootTableId;
+  // Chance to drop a solid block, growing towards the top layer, for a ruined look.
+  decay?: number;
+}
+
+const TEMPLATE_PALETTE: Record<string, BlockType> = {
+  '.': 'air',
+  c: 'cobblestone',
+  s: 'stone',
+  p: 'planks',
+  w: 'wood',
+  b: 'brick',
+  g: 'glass',
+  W: 'water',
+  C: 'chest',
+};
+
+// Surface structures are propped up by this many blocks of foundation over dips in the terrain.
+const FOUNDATION_DEPTH = 5;
+// Underground structures are skipped when they would end up this close to bedrock.
+const MIN_UNDERGROUND_Y = 2;
+
+const ANY_BUT_BEDROCK = BLOCK_PALETTE.filter(type => type !== 'bedrock');
+
+const RUINED_TOWER_WALL = [
+  ' ccccc ',
+  'c.....c',
+  'c.....c',
+  'c.....c',
+  'c.....c',
+  'c.....c',
+  ' ccccc ',
+];
+
+const DUNGEON_WALL = [
+  'ccccccccc',
+  'c.......c',
+  'c.......c',
+  'c.......c',
+  'c.......c',
+  'c.......c',
+  'c.......c',
+  'c.......c',
+  'ccccccccc',
+];
+
+const DUNGEON_FLOOR = [
+  'ccccccccc',
+  'ccscccscc',
+  'cccccsccc',
+  'cscccccsc',
+  'ccccscccc',
+  'csccccccc',
+  'cccsccscc',
+  'ccccccccc',
+  'ccccccccc',
+];
+
+export const STRUCTURE_TEMPLATES: StructureTemplate[] = [
+  {
+    id: 'ruined_tower',
+    offsetY: -1,
+    placement: 'surface',
+    weights: { plains: 0.01, forest: 0.008, desert: 0.012, tundra: 0.008, mountains: 0.006 },
+    loot: 'ruins',
+    decay: 0.6,
+    layers: [
+      [
+        ' ccccc ',
+        'ccccccc',
+        'ccccccc',
+        'ccccccc',
+        'ccccccc',
+        'ccccccc',
+        ' ccccc ',
+      ],
+      [
+        ' ccccc ',
+        'c....Cc',
+        'c.....c',
+        'c.....c',
+        'c.....c',
+        'c.....c',
+        ' cc.cc ',
+      ],
+      [
+        ' ccccc ',
+        'c.....c',
+        'c.....c',
+        'c.....c',
+        'c.....c',
+        'c.....c',
+        ' cc.cc ',
+      ],
+      RUINED_TOWER_WALL,
+      [
+        ' cbcbc ',
+        'b.....b',
+        'c.....c',
+        'b.....b',
+        'c.....c',
+        'b.....b',
+        ' cbcbc ',
+      ],
+      RUINED_TOWER_WALL,
+      [
+        ' c c c ',
+        '       ',
+        'c     c',
+        '       ',
+        'c     c',
+        '       ',
+        ' c c c ',
+      ],
+    ],
+  },
+  {
+    id: 'dungeon',
+    offsetY: -16,
+    placement: 'underground',
+    weights: { plains: 0.03, forest: 0.03, desert: 0.03, tundra: 0.03, mountains: 0.04, ocean: 0.015 },
+    loot: 'dungeon',
+    layers: [
+      DUNGEON_FLOOR,
+      [
+        'ccccccccc',
+        'cC......c',
+        'c.......c',
+        'c.......c',
+        'c.......c',
+        'c.......c',
+        'c.......c',
+        'c......Cc',
+        'ccccccccc',
+      ],
+      DUNGEON_WALL,
+      DUNGEON_WALL,
+      DUNGEON_FLOOR,
+    ],
+  },
+  {
+    id: 'village',
+    offsetY: -1,
+    placement: 'surface',
+    weights: { plains: 0.012, desert: 0.008, tundra: 0.004 },
+    loot: 'village',
+    layers: [
+      [
+        'ppppp     ppppp',
+        'ppppp     ppppp',
+        'ppppp     ppppp',
+        'ppppp     ppppp',
+        'ppppp     ppppp',
+        '  ccccccccccc  ',
+        '      ccc      ',
+        '      cWc      ',
+        '      ccc      ',
+      ],
+      [
+        'wpppw     wpppw',
+        'p...p     p...p',
+        'p...p     pC..p',
+        'pC..p     p...p',
+        'wp.pw     wp.pw',
+        '  ...........  ',
+        '      w.w      ',
+        '       .       ',
+        '      w.w      ',
+      ],
+      [
+        'wpgpw     wpgpw',
+        'p...p     p...p',
+        'g...g     g...g',
+        'p...p     p...p',
+        'wp.pw     wp.pw',
+        '  ...........  ',
+        '      w.w      ',
+        '       .       ',
+        '      w.w      ',
+      ],
+      [
+        'wpppw     wpppw',
+        'p...p     p...p',
+        'p...p     p...p',
+        'p...p     p...p',
+        'wpppw     wpppw',
+        '               ',
+        '      ppp      ',
+        '      ppp      ',
+        '      ppp      ',
+      ],
+      [
+        'bbbbb     bbbbb',
+        'bbbbb     bbbbb',
+        'bbbbb     bbbbb',
+        'bbbbb     bbbbb',
+        'bbbbb     bbbbb',
+      ],
+    ],
+  },
+];
+
+const createStructureFeature = (template: StructureTemplate): Feature => {
+  const depth = Math.max(...template.layers.map(layer => layer.length));
+  const width = Math.max(...template.layers.flatMap(layer => layer.map(row => row.length)));
+  const centerX = Math.floor(width / 2);
+  const centerZ = Math.floor(depth / 2);
+
+  return {
+    radius: Math.ceil(Math.hypot(width, depth) / 2),
+    place: (writer, originX, originY, originZ, random) => {
+      const baseY = originY + template.offsetY;
+      if (template.placement === 'underground' && baseY < MIN_UNDERGROUND_Y) return;
+      const rotation = Math.floor(random() * 4);
+
+      const toWorld = (col: number, row: number): [number, number] => {
+        const dx = col - centerX;
+        const dz = row - centerZ;
+        if (rotation === 1) return [originX - dz, originZ + dx];
+        if (rotation === 2) return [originX - dx, originZ - dz];
+        if (rotation === 3) return [originX + dz, originZ - dx];
+        return [originX + dx, originZ + dz];
+      };
+
+      template.layers.forEach((layer, layerIndex) => {
+        const y = baseY + layerIndex;
+        const decay = (template.decay ?? 0) * (layerIndex / template.layers.length);
+        layer.forEach((row, rowIndex) => {
+          for (let col = 0; col < row.length; col++) {
+            const type = TEMPLATE_PALETTE[row[col]];
+            if (!type) continue;
+            const [x, z] = toWorld(col, rowIndex);
+            if (type !== 'air' && type !== 'chest' && random() < decay) continue;
+
+            writer.set(x, y, z, type, ANY_BUT_BEDROCK);
+            if (type === 'chest') writer.setLoot(x, y, z, template.loot);
+
+            if (layerIndex === 0 && template.placement === 'surface' && type !== 'air') {
+              for (let depthY = 1; depthY <= FOUNDATION_DEPTH; depthY++) {
+                writer.set(x, y - depthY, z, 'cobblestone', ['air', 'water', 'leaves']);
+              }
+            }
+          }
+        });
+      });
+    },
+  };
+};
+
+export const STRUCTURE_RULES: FeatureRule[] = STRUCTURE_TEMPLATES.map(template => ({
+  group: 'structures',
+  feature: createStructureFeature(template),
+  attempts: 1,
+  chance: column => {
+    if (template.placement === 'surface' && column.submerged) return 0;
+    return template.weights[column.biome.id] ?? 0;
+  },
+}));
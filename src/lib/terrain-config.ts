@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import type { BlockType, ItemType } from '@/lib/game-types';
+import { BIOMES, type Biome, type BiomeId } from '@/lib/biomes';
+import { ITEM_REGISTRY } from '@/lib/blocks';
+import { BLOCK_PALETTE, DEFAULT_WORLD_HEIGHT, MAX_WORLD_HEIGHT } from '@/lib/chunk';
+import { CHEST_SIZE, LOOT_TABLES, type LootTable, type LootTableId } from '@/lib/loot';
+
+const blockType = z.enum(BLOCK_PALETTE as [BlockType, ...BlockType[]]);
+const itemType = z.enum([...BLOCK_PALETTE, ...Object.keys(ITEM_REGISTRY)] as [ItemType, ...ItemType[]]);
+
+const noiseLayer = z.object({
+  frequency: z.number().positive().max(1),
+  octaves: z.number().int().min(1).max(8),
+  persistence: z.number().positive().max(1).optional(),
+  lacunarity: z.number().min(1).max(4).optional(),
+}).strict();
+
+const shapedNoiseLayer = noiseLayer.extend({
+  amplitude: z.number().min(0).max(MAX_WORLD_HEIGHT),
+}).strict();
+
+const biomeOverride = z.object({
+  surface: blockType.optional(),
+  subsurface: blockType.optional(),
+  treeDensity: z.number().min(0).max(1).optional(),
+  hillScale: z.number().min(0).max(4).optional(),
+  heightOffset: z.number().min(-16).max(16).optional(),
+  temperature: z.number().min(-1).max(1).optional(),
+  humidity: z.number().min(-1).max(1).optional(),
+}).strict();
+
+const lootEntry = z.object({
+  item: itemType,
+  weight: z.number().positive(),
+  min: z.number().int().min(1).max(64),
+  max: z.number().int().min(1).max(64),
+}).strict().refine(entry => entry.min <= entry.max, {
+  message: 'min не может быть больше max',
+  path: ['min'],
+});
+
+const lootTable = z.object({
+  minRolls: z.number().int().min(0).max(CHEST_SIZE),
+  maxRolls: z.number().int().min(0).max(CHEST_SIZE),
+  entries: z.array(lootEntry).min(1),
+}).strict().refine(table => table.minRolls <= table.maxRolls, {
+  message: 'minRolls не может быть больше maxRolls',
+  path: ['minRolls'],
+});
+
+export const terrainConfigSchema = z.object({
+  baseHeight: z.number().int().min(1).max(MAX_WORLD_HEIGHT - 1),
+  heightScale: z.number().positive().max(4),
+  minHeight: z.number().int().min(1).max(MAX_WORLD_HEIGHT - 1),
+  seaLevel: z.number().int().min(0).max(MAX_WORLD_HEIGHT - 1),
+  valleyDepth: z.number().min(0).max(MAX_WORLD_HEIGHT),
+  oceanDepth: z.number().min(0).max(MAX_WORLD_HEIGHT),
+  noise: z.object({
+    continent: shapedNoiseLayer,
+    hills: shapedNoiseLayer,
+    ridges: shapedNoiseLayer,
+    temperature: noiseLayer,
+    humidity: noiseLayer,
+  }).strict(),
+  layers: z.object({
+    base: blockType,
+    subsurfaceDepth: z.number().int().min(0).max(16),
+    bedrock: z.boolean(),
+  }).strict(),
+  biomes: z.object(
+    Object.fromEntries(BIOMES.map(biome => [biome.id, biomeOverride.optional()])) as Record<BiomeId, z.ZodOptional<typeof biomeOverride>>,
+  ).strict(),
+  features: z.object({
+    caves: z.boolean(),
+    ores: z.boolean(),
+    trees: z.number().min(0).max(10),
+    boulders: z.number().min(0).max(10),
+    structures: z.number().min(0).max(10),
+  }).strict(),
+  // Replaces whole structure chest tables; missing in worlds created before loot was configurable.
+  loot: z.object(
+    Object.fromEntries(Object.keys(LOOT_TABLES).map(id => [id, lootTable.optional()])) as Record<LootTableId, z.ZodOptional<typeof lootTable>>,
+  ).strict().optional(),
+}).strict().refine(config => config.minHeight <= config.baseHeight, {
+  message: 'minHeight не может быть больше baseHeight',
+  path: ['minHeight'],
+});
+
+export type TerrainConfig = z.infer<typeof terrainConfigSchema>;
+
+export const DEFAULT_TERRAIN_CONFIG: TerrainConfig = {
+  baseHeight: 31,
+  heightScale: 1,
+  minHeight: 4,
+  seaLevel: 30,
+  valleyDepth: 6,
+  oceanDepth: 8,
+  noise: {
+    continent: { frequency: 0.004, octaves: 4, amplitude: 5 },
+    hills: { frequency: 0.02, octaves: 3, amplitude: 5 },
+    ridges: { frequency: 0.01, octaves: 4, persistence: 0.45, amplitude: 20 },
+    temperature: { frequency: 0.0025, octaves: 3 },
+    humidity: { frequency: 0.0025, octaves: 3 },
+  },
+  layers: {
+    base: 'stone',
+    subsurfaceDepth: 3,
+    bedrock: true,
+  },
+  biomes: {},
+  features: {
+    caves: true,
+    ores: true,
+    trees: 1,
+    boulders: 1,
+    structures: 1,
+  },
+  loot: {},
+};
+
+export type TerrainConfigResult =
+  | { success: true; config: TerrainConfig }
+  | { success: false; errors: string[] };
+
+const TYPE_NAMES: Record<string, string> = {
+  number: 'число',
+  integer: 'целое число',
+  float: 'дробное число',
+  string: 'строка',
+  boolean: 'true или false',
+  object: 'объект',
+  array: 'массив',
+  null: 'null',
+};
+
+const typeName = (type: string) => TYPE_NAMES[type] ?? type;
+
+const formatIssue = (issue: z.ZodIssue) => {
+  const path = issue.path.length > 0 ? issue.path.join('.') : 'конфигурация';
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.received === 'undefined'
+        ? `${path}: обязательное поле`
+        : `${path}: ожидается ${typeName(issue.expected)}, получено ${typeName(issue.received)}`;
+    case 'unrecognized_keys':
+      return `${path}: неизвестные поля ${issue.keys.join(', ')}`;
+    case 'invalid_enum_value':
+      return issue.path.at(-1) === 'item'
+        ? `${path}: неизвестный предмет «${issue.received}»`
+        : `${path}: неизвестный блок «${issue.received}»`;
+    case 'too_small':
+      return `${path}: должно быть не меньше ${issue.minimum}`;
+    case 'too_big':
+      return `${path}: должно быть не больше ${issue.maximum}`;
+    default:
+      return `${path}: ${issue.message}`;
+  }
+};
+
+// The schema allows the tallest world; levels above the chosen world height are reported here.
+const checkWorldHeight = (config: TerrainConfig, worldHeight: number) =>
+  (['baseHeight', 'minHeight', 'seaLevel'] as const)
+    .filter(key => config[key] >= worldHeight)
+    .map(key => `${key}: должно быть меньше высоты мира (${worldHeight})`);
+
+export const parseTerrainConfig = (text: string, worldHeight = DEFAULT_WORLD_HEIGHT): TerrainConfigResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { success: false, errors: [`Некорректный JSON: ${(error as Error).message}`] };
+  }
+
+  const result = terrainConfigSchema.safeParse(json);
+  if (!result.success) {
+    return { success: false, errors: result.error.issues.map(formatIssue) };
+  }
+  const errors = checkWorldHeight(result.data, worldHeight);
+  if (errors.length > 0) return { success: false, errors };
+  return { success: true, config: result.data };
+};
+
+// Applies the config's overrides on top of the built-in biome table, keeping names and colours.
+export const resolveBiomes = (config: TerrainConfig): Biome[] =>
+  BIOMES.map(biome => {
+    const override = config.biomes[biome.id];
+    if (!override) return biome;
+    const { temperature, humidity, ...rest } = override;
+    const climate = biome.climate && {
+      temperature: temperature ?? biome.climate.temperature,
+      humidity: humidity ?? biome.climate.humidity,
+    };
+    return { ...biome, ...rest, climate };
+  });
+
+// Chest loot for the world: tables the config sets replace the built-in ones with the same id.
+export const resolveLootTables = (config: TerrainConfig): Record<LootTableId, LootTable> => ({
+  ...LOOT_TABLES,
+  ...config.loot,
+});
@@ -0,0 +1,159 @@
+import type { Chunk } from '@/lib/chunk';
+import { createGenerator, type GeneratorSettings, type TerrainGenerator } from '@/lib/generators';
+
+export interface TerrainSettings {
+  seed: number;
+  height: number;
+  generator: GeneratorSettings;
+}
+
+export type TerrainWorkerRequest =
+  | { type: 'configure'; settings: TerrainSettings }
+  | { type: 'generate'; chunkX: number; chunkZ: number };
+
+// Workers answer every generate request, with the error message when generation threw.
+export type TerrainWorkerResponse =
+  | { chunkX: number; chunkZ: number; chunk: Chunk }
+  | { chunkX: number; chunkZ: number; error: string };
+
+interface TerrainJob {
+  chunkX: number;
+  chunkZ: number;
+}
+
+export interface ChunkSource {
+  request: (chunkX: number, chunkZ: number) => void;
+  cancel: (chunkX: number, chunkZ: number) => void;
+  setFocus: (chunkX: number, chunkZ: number) => void;
+  terminate: () => void;
+}
+
+const MAX_WORKERS = 4;
+
+const getWorkerCount = () => {
+  if (typeof Worker === 'undefined') return 0;
+  return Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+};
+
+export const createTerrainWorkerPool = (
+  settings: TerrainSettings,
+  onChunk: (chunkX: number, chunkZ: number, chunk: Chunk) => void,
+  onError: (chunkX: number, chunkZ: number, message: string) => void,
+): ChunkSource => {
+  const queue = new Map<string, TerrainJob>();
+  const idle: Worker[] = [];
+  const workers: Worker[] = [];
+  const running = new Map<Worker, TerrainJob>();
+  let focusX = 0;
+  let focusZ = 0;
+  let terminated = false;
+  let fallbackTimer: number | null = null;
+  let fallbackGenerator: TerrainGenerator | null = null;
+
+  const takeNearest = () => {
+    let bestKey = '';
+    let bestDistance = Infinity;
+    queue.forEach((job, key) => {
+      const distance = (job.chunkX - focusX) ** 2 + (job.chunkZ - focusZ) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestKey = key;
+      }
+    });
+    const job = queue.get(bestKey)!;
+    queue.delete(bestKey);
+    return job;
+  };
+
+  // Without worker support chunks are still generated one per task, so a frame never waits on a batch.
+  const runFallback = () => {
+    fallbackTimer = null;
+    if (terminated || queue.size === 0) return;
+    const job = takeNearest();
+    try {
+      fallbackGenerator ??= createGenerator(settings.seed, settings.generator, settings.height);
+      onChunk(job.chunkX, job.chunkZ, fallbackGenerator.generate(job.chunkX, job.chunkZ));
+    } catch (error) {
+      onError(job.chunkX, job.chunkZ, error instanceof Error ? error.message : String(error));
+    }
+    fallbackTimer = window.setTimeout(runFallback, 0);
+  };
+
+  const dispatch = () => {
+    if (terminated) return;
+    if (workers.length === 0) {
+      if (fallbackTimer === null) fallbackTimer = window.setTimeout(runFallback, 0);
+      return;
+    }
+    while (idle.length > 0 && queue.size > 0) {
+      const job = takeNearest();
+      const worker = idle.pop()!;
+      const request: TerrainWorkerRequest = { type: 'generate', ...job };
+      running.set(worker, job);
+      worker.postMessage(request);
+    }
+  };
+
+  // A worker that crashed may be in any state, so it is dropped and its chunk goes back in the queue.
+  // Once every worker is gone, chunks are generated on the main thread instead.
+  const dropWorker = (worker: Worker) => {
+    worker.terminate();
+    workers.splice(workers.indexOf(worker), 1);
+    const index = idle.indexOf(worker);
+    if (index >= 0) idle.splice(index, 1);
+    const job = running.get(worker);
+    running.delete(worker);
+    if (job) queue.set(`${job.chunkX},${job.chunkZ}`, job);
+    dispatch();
+  };
+
+  for (let i = 0; i < getWorkerCount(); i++) {
+    const worker = new Worker(new URL('./terrain.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TerrainWorkerResponse>) => {
+      running.delete(worker);
+      idle.push(worker);
+      if (terminated) return;
+      const response = event.data;
+      if ('error' in response) onError(response.chunkX, response.chunkZ, response.error);
+      else onChunk(response.chunkX, response.chunkZ, response.chunk);
+      dispatch();
+    };
+    // The chunk could not be read back, so that job fails but the worker itself is fine.
+    worker.onmessageerror = () => {
+      const job = running.get(worker);
+      running.delete(worker);
+      idle.push(worker);
+      if (terminated) return;
+      if (job) onError(job.chunkX, job.chunkZ, 'Chunk data could not be read');
+      dispatch();
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      if (!terminated) dropWorker(worker);
+    };
+    const configure: TerrainWorkerRequest = { type: 'configure', settings };
+    worker.postMessage(configure);
+    workers.push(worker);
+    idle.push(worker);
+  }
+
+  return {
+    request: (chunkX, chunkZ) => {
+      queue.set(`${chunkX},${chunkZ}`, { chunkX, chunkZ });
+      dispatch();
+    },
+    cancel: (chunkX, chunkZ) => {
+      queue.delete(`${chunkX},${chunkZ}`);
+    },
+    setFocus: (chunkX, chunkZ) => {
+      focusX = chunkX;
+      focusZ = chunkZ;
+    },
+    terminate: () => {
+      terminated = true;
+      queue.clear();
+      workers.forEach(worker => worker.terminate());
+      if (fallbackTimer !== null) window.clearTimeout(fallbackTimer);
+    },
+  };
+};
@@ -0,0 +1,154 @@
+import type { BlockType } from '@/lib/game-types';
+import { BIOME_IDS, blendClimateBiomes, getLandBiomes, type Biome } from '@/lib/biomes';
+import { carveCaves } from '@/lib/caves';
+import { CHUNK_SIZE, DEFAULT_WORLD_HEIGHT, createChunk, setChunkBlock, type Chunk } from '@/lib/chunk';
+import { placeFeatures } from '@/lib/features';
+import { createNoise2D, fractal2D, smoothstep, type Noise2D } from '@/lib/noise';
+import { placeOres } from '@/lib/ores';
+import { hashCoords } from '@/lib/random';
+import { DEFAULT_TERRAIN_CONFIG, resolveBiomes, type TerrainConfig } from '@/lib/terrain-config';
+
+export interface TerrainColumn {
+  height: number;
+  biome: Biome;
+  surface: BlockType;
+  subsurface: BlockType;
+  submerged: boolean;
+}
+
+interface TerrainContext {
+  seed: number;
+  config: TerrainConfig;
+  biomes: Biome[];
+  landBiomes: Biome[];
+  continent: Noise2D;
+  hills: Noise2D;
+  ridges: Noise2D;
+  temperature: Noise2D;
+  humidity: Noise2D;
+}
+
+let cachedContext: TerrainContext | null = null;
+
+// A world keeps one config object for its whole session, so comparing by identity is enough.
+const getTerrainContext = (seed: number, config: TerrainConfig): TerrainContext => {
+  if (cachedContext?.seed !== seed || cachedContext.config !== config) {
+    const biomes = resolveBiomes(config);
+    cachedContext = {
+      seed,
+      config,
+      biomes,
+      landBiomes: getLandBiomes(biomes),
+      continent: createNoise2D(hashCoords(seed, 1)),
+      hills: createNoise2D(hashCoords(seed, 2)),
+      ridges: createNoise2D(hashCoords(seed, 3)),
+      temperature: createNoise2D(hashCoords(seed, 4)),
+      humidity: createNoise2D(hashCoords(seed, 5)),
+    };
+  }
+  return cachedContext;
+};
+
+// Mountains turn to snow above this share of the ridge height over the base level and stay green below the other.
+const MOUNTAIN_SNOW_LINE = 0.75;
+const MOUNTAIN_GRASS_LINE = 0.45;
+
+const getSurfaceBlocks = (biome: Biome, height: number, config: TerrainConfig, worldHeight: number): [BlockType, BlockType] => {
+  if (biome.id === 'mountains') {
+    const ridgeHeight = config.noise.ridges.amplitude * config.heightScale;
+    // Peaks cut off by the top of the world still get their snow.
+    const snowLine = Math.min(config.baseHeight + ridgeHeight * MOUNTAIN_SNOW_LINE, worldHeight - 9);
+    if (height > snowLine) return ['snow', 'stone'];
+    if (height < config.baseHeight + ridgeHeight * MOUNTAIN_GRASS_LINE) return ['grass', 'dirt'];
+  }
+  if (height <= config.seaLevel && (biome.surface === 'grass' || biome.surface === 'snow')) return ['sand', 'sand'];
+  return [biome.surface, biome.subsurface];
+};
+
+// Low continent values carve valleys and then ocean basins, high ones raise ridged mountains;
+// in between the climate biomes shape the rolling hills. `heightScale` stretches the relief around the base level.
+export const getTerrainColumn = (
+  seed: number,
+  worldX: number,
+  worldZ: number,
+  config: TerrainConfig = DEFAULT_TERRAIN_CONFIG,
+  worldHeight = DEFAULT_WORLD_HEIGHT,
+): TerrainColumn => {
+  const context = getTerrainContext(seed, config);
+  const { noise } = config;
+  const continent = fractal2D(context.continent, worldX, worldZ, noise.continent);
+  const hills = fractal2D(context.hills, worldX, worldZ, noise.hills);
+  const ridges = 1 - Math.abs(fractal2D(context.ridges, worldX, worldZ, noise.ridges));
+  const temperature = fractal2D(context.temperature, worldX, worldZ, noise.temperature);
+  const humidity = fractal2D(context.humidity, worldX, worldZ, noise.humidity);
+  const blend = blendClimateBiomes(context.landBiomes, temperature, humidity);
+
+  const mountains = smoothstep(0.15, 0.55, continent);
+  const valleys = smoothstep(-0.15, -0.5, continent);
+  const ocean = smoothstep(-0.3, -0.6, continent);
+  const relief = continent * noise.continent.amplitude
+    + hills * noise.hills.amplitude * (0.4 + 0.6 * (1 - mountains)) * blend.hillScale
+    + blend.heightOffset * (1 - ocean)
+    + mountains * ridges * ridges * noise.ridges.amplitude
+    - valleys * config.valleyDepth
+    - ocean * config.oceanDepth;
+  const height = config.baseHeight + relief * config.heightScale;
+  const clamped = Math.max(config.minHeight, Math.min(worldHeight - 8, Math.floor(height)));
+
+  let biome = blend.dominant;
+  if (ocean > 0.5 && clamped < config.seaLevel) {
+    biome = context.biomes[BIOME_IDS.ocean];
+  } else if (mountains > 0.6) {
+    biome = context.biomes[BIOME_IDS.mountains];
+  }
+  const [surface, subsurface] = getSurfaceBlocks(biome, clamped, config, worldHeight);
+  return { height: clamped, biome, surface, subsurface, submerged: clamped < config.seaLevel };
+};
+
+export const getTerrainHeight = (seed: number, worldX: number, worldZ: number, config?: TerrainConfig, worldHeight?: number) =>
+  getTerrainColumn(seed, worldX, worldZ, config, worldHeight).height;
+
+export const generateTerrain = (
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  config: TerrainConfig = DEFAULT_TERRAIN_CONFIG,
+  worldHeight = DEFAULT_WORLD_HEIGHT,
+): Chunk => {
+  const chunk = createChunk(worldHeight);
+  const heights = new Uint16Array(CHUNK_SIZE * CHUNK_SIZE);
+  const { layers, features } = config;
+  const seaLevel = Math.min(config.seaLevel, worldHeight);
+
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      const worldX = chunkX * CHUNK_SIZE + x;
+      const worldZ = chunkZ * CHUNK_SIZE + z;
+      const { height, biome, surface, subsurface } = getTerrainColumn(seed, worldX, worldZ, config, worldHeight);
+      chunk.biomes[z * CHUNK_SIZE + x] = BIOME_IDS[biome.id];
+      heights[z * CHUNK_SIZE + x] = height;
+
+      for (let y = 0; y < height; y++) {
+        if (y === 0 && layers.bedrock) {
+          setChunkBlock(chunk, x, y, z, 'bedrock');
+        } else if (y < height - 1 - layers.subsurfaceDepth) {
+          setChunkBlock(chunk, x, y, z, layers.base);
+        } else if (y < height - 1) {
+          setChunkBlock(chunk, x, y, z, subsurface);
+        } else {
+          setChunkBlock(chunk, x, y, z, surface);
+        }
+      }
+
+      for (let y = height; y < seaLevel; y++) {
+        setChunkBlock(chunk, x, y, z, 'water');
+      }
+    }
+  }
+
+  if (features.caves) carveCaves(chunk, seed, chunkX, chunkZ, heights);
+  if (features.ores) placeOres(chunk, seed, chunkX, chunkZ);
+  placeFeatures(chunk, seed, chunkX, chunkZ, (x, z) => getTerrainColumn(seed, x, z, config, worldHeight), features);
+
+  return chunk;
+};
@@ -0,0 +1,31 @@
+import { createGenerator, type TerrainGenerator } from '@/lib/generators';
+import type { TerrainWorkerRequest, TerrainWorkerResponse } from '@/lib/terrain-worker-pool';
+
+let generator: TerrainGenerator | null = null;
+let configureError = 'Terrain generator is not configured';
+
+self.onmessage = (event: MessageEvent<TerrainWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'configure') {
+    const { seed, height, generator: settings } = request.settings;
+    try {
+      generator = createGenerator(seed, settings, height);
+    } catch (error) {
+      generator = null;
+      configureError = error instanceof Error ? error.message : String(error);
+    }
+    return;
+  }
+
+  const { chunkX, chunkZ } = request;
+  try {
+    if (!generator) throw new Error(configureError);
+    const chunk = generator.generate(chunkX, chunkZ);
+    const response: TerrainWorkerResponse = { chunkX, chunkZ, chunk };
+    const sections = chunk.sections.flatMap(section => (section ? [section.buffer] : []));
+    postMessage(response, { transfer: [...sections, chunk.biomes.buffer] });
+  } catch (error) {
+    const response: TerrainWorkerResponse = { chunkX, chunkZ, error: error instanceof Error ? error.message : String(error) };
+    postMessage(response);
+  }
+};
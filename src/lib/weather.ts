@@ -0,0 +1,89 @@
+import type { Block } from '@/lib/game-types';
+import { getBlockProperties } from '@/lib/blocks';
+import { UNLOADED_BLOCK } from '@/lib/chunk-manager';
+import { TICKS_PER_SECOND, mixColors } from '@/lib/day-night';
+import type { WorldAccess } from '@/lib/fluids';
+
+export type WeatherType = 'clear' | 'rain' | 'thunder';
+
+export const WEATHER_TYPES: readonly WeatherType[] = ['clear', 'rain', 'thunder'];
+
+export const WEATHER_NAMES: Record<WeatherType, string> = {
+  clear: 'ясно',
+  rain: 'осадки',
+  thunder: 'гроза',
+};
+
+export interface Weather {
+  type: WeatherType;
+  // Game ticks left until the weather changes on its own.
+  duration: number;
+}
+
+// Seconds each kind of weather lasts when it starts on its own.
+const DURATIONS: Record<WeatherType, [number, number]> = {
+  clear: [600, 1500],
+  rain: [180, 480],
+  thunder: [120, 300],
+};
+
+// How far the sky turns grey and sky light fades.
+const DARKNESS: Record<WeatherType, number> = { clear: 0, rain: 0.35, thunder: 0.6 };
+const STORM_SKY = '#4B5260';
+
+export const MAX_SNOW_LAYERS = 7;
+
+// Average game ticks between two lightning strikes in a thunderstorm.
+const LIGHTNING_INTERVAL = 8 * TICKS_PER_SECOND;
+
+export const createWeather = (type: WeatherType = 'clear', seconds?: number): Weather => {
+  const [min, max] = DURATIONS[type];
+  return { type, duration: Math.round((seconds ?? min + Math.random() * (max - min)) * TICKS_PER_SECOND) };
+};
+
+const getNextWeatherType = (type: WeatherType): WeatherType => {
+  if (type === 'clear') return Math.random() < 0.2 ? 'thunder' : 'rain';
+  if (type === 'thunder') return 'rain';
+  return Math.random() < 0.15 ? 'thunder' : 'clear';
+};
+
+export const advanceWeather = (weather: Weather): Weather => (
+  weather.duration > 1 ? { ...weather, duration: weather.duration - 1 } : createWeather(getNextWeatherType(weather.type))
+);
+
+export const getWeatherDarkness = (type: WeatherType) => DARKNESS[type];
+
+export const getWeatherSky = (sky: { top: string; bottom: string }, type: WeatherType) => ({
+  top: mixColors(sky.top, STORM_SKY, DARKNESS[type]),
+  bottom: mixColors(sky.bottom, STORM_SKY, DARKNESS[type]),
+});
+
+export const shouldStrikeLightning = (weather: Weather) =>
+  weather.type === 'thunder' && Math.random() < 1 / LIGHTNING_INTERVAL;
+
+// A snow layer block without a level is a single layer.
+export const getSnowHeight = (block: Block) => (block.level || 1) / (MAX_SNOW_LAYERS + 1);
+
+// Highest block in the column that is not air, or -1 when the column is empty or not loaded.
+export const getTopBlockY = (world: WorldAccess, x: number, z: number, height: number) => {
+  for (let y = height - 1; y >= 0; y--) {
+    const block = world.getBlock(x, y, z);
+    if (block === UNLOADED_BLOCK) return -1;
+    if (block.type !== 'air') return y;
+  }
+  return -1;
+};
+
+// Lets one more layer of snow settle on top of the column. Snow only settles on solid ground and
+// becomes a full snow block once the layers fill it.
+export const addSnowLayer = (world: WorldAccess, x: number, z: number, height: number) => {
+  const y = getTopBlockY(world, x, z, height);
+  if (y < 0) return;
+  const top = world.getBlock(x, y, z);
+  if (top.type === 'snow_layer') {
+    const layers = top.level || 1;
+    world.setBlock(x, y, z, layers >= MAX_SNOW_LAYERS ? { type: 'snow' } : { type: 'snow_layer', level: layers + 1 });
+  } else if (getBlockProperties(top.type).solid && y + 1 < height) {
+    world.setBlock(x, y + 1, z, { type: 'snow_layer' });
+  }
+};
@@ -0,0 +1,344 @@
+import type { Block, InventorySlot, Player } from '@/lib/game-types';
+import { CHUNK_SIZE, DEFAULT_WORLD_HEIGHT, createChunk, setChunkBlock } from '@/lib/chunk';
+import { diffChunk, type SerializedDelta } from '@/lib/chunk-delta';
+import type { WorldClock } from '@/lib/day-night';
+import type { GameRules } from '@/lib/game-rules';
+import type { Weather } from '@/lib/weather';
+import { DEFAULT_GENERATOR, GENERATOR_VERSION, type GeneratorSettings } from '@/lib/generators';
+import type { HeightmapSettings } from '@/lib/heightmap';
+import { generateTerrain } from '@/lib/terrain';
+
+const DB_NAME = 'dooms-daynightmare';
+const DB_VERSION = 3;
+const WORLDS_STORE = 'worlds';
+const STATES_STORE = 'states';
+const CHUNKS_STORE = 'chunks';
+const HEIGHTMAPS_STORE = 'heightmaps';
+const LEGACY_META_STORE = 'meta';
+const LEGACY_META_KEY = 'world';
+// Worlds saved before generator versions existed count as the first version, although their edits may
+// have been made on terrain that older builds generated differently.
+const LEGACY_GENERATOR_VERSION = 1;
+
+export type WorldMode = Player['mode'];
+
+export interface WorldInfo {
+  id: string;
+  name: string;
+  mode: WorldMode;
+  seed: number;
+  // Height in blocks, fixed when the world is created.
+  height: number;
+  generator: GeneratorSettings;
+  // GENERATOR_VERSION the saved chunk edits apply to.
+  generatorVersion: number;
+  createdAt: number;
+  lastPlayed: number;
+}
+
+// A world as the world list sees it. The pixels of a heightmap world live in their own store, so listing
+// worlds never reads whole images.
+export type WorldSummary = Omit<WorldInfo, 'generator'> & {
+  generator: Omit<GeneratorSettings, 'heightmap'> & { heightmap?: Omit<HeightmapSettings, 'pixels'> };
+};
+
+interface StoredHeightmap {
+  worldId: string;
+  pixels: Uint8Array;
+}
+
+export interface SavedWorldState {
+  worldId: string;
+  player: Player;
+  inventory: InventorySlot[];
+  // Chest contents by "x,y,z"; a chest appears here once it has been opened or placed. Missing in older saves.
+  containers?: Record<string, InventorySlot[]>;
+  // Missing in saves made before the day/night cycle.
+  clock?: WorldClock;
+  // Missing in saves made before weather.
+  weather?: Weather;
+  // Rules changed with /gamerule; missing ones keep their defaults.
+  gameRules?: Partial<GameRules>;
+  savedAt: number;
+}
+
+export interface SavedChunk {
+  key: string;
+  changes: SerializedDelta;
+}
+
+// Saves made before chunk deltas stored the whole chunk in `blocks`.
+interface StoredChunk {
+  worldId: string;
+  key: string;
+  changes?: SerializedDelta;
+  blocks?: Block[][][];
+}
+
+export interface SavedWorld {
+  info: WorldInfo;
+  state: SavedWorldState | null;
+  chunks: SavedChunk[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const createWorldId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Worlds created before seeds, presets or height settings existed were generated without them.
+const normalizeWorld = (info: WorldSummary): WorldSummary => ({
+  ...info,
+  seed: info.seed ?? 0,
+  height: info.height ?? DEFAULT_WORLD_HEIGHT,
+  generator: info.generator ?? DEFAULT_GENERATOR,
+  generatorVersion: info.generatorVersion ?? LEGACY_GENERATOR_VERSION,
+});
+
+const splitHeightmap = (info: WorldInfo): { summary: WorldSummary; heightmap: StoredHeightmap | null } => {
+  const { heightmap, ...generator } = info.generator;
+  if (!heightmap) return { summary: info, heightmap: null };
+  const { pixels, ...settings } = heightmap;
+  return { summary: { ...info, generator: { ...generator, heightmap: settings } }, heightmap: { worldId: info.id, pixels } };
+};
+
+// A heightmap world whose pixels are missing falls back to the flat terrain the preset uses without a map.
+const joinHeightmap = (summary: WorldSummary, heightmap: StoredHeightmap | undefined): WorldInfo => {
+  const { heightmap: settings, ...generator } = summary.generator;
+  return { ...summary, generator: settings && heightmap ? { ...generator, heightmap: { ...settings, pixels: heightmap.pixels } } : generator };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Version 1 kept a single unnamed world; it is moved into the first world slot.
+const migrateLegacySave = (tx: IDBTransaction) => {
+  const legacyChunks: StoredChunk[] = [];
+  const chunksRequest = tx.objectStore(CHUNKS_STORE).getAll();
+
+  chunksRequest.onsuccess = () => {
+    legacyChunks.push(...chunksRequest.result);
+    tx.db.deleteObjectStore(CHUNKS_STORE);
+    const chunkStore = tx.db.createObjectStore(CHUNKS_STORE, { keyPath: ['worldId', 'key'] });
+    chunkStore.createIndex('worldId', 'worldId');
+
+    const metaRequest = tx.objectStore(LEGACY_META_STORE).get(LEGACY_META_KEY);
+    metaRequest.onsuccess = () => {
+      const legacy = metaRequest.result as Omit<SavedWorldState, 'worldId'> | undefined;
+      tx.db.deleteObjectStore(LEGACY_META_STORE);
+      if (!legacy) return;
+
+      const info: WorldInfo = {
+        id: createWorldId(),
+        name: 'Мой мир',
+        mode: legacy.player.mode,
+        seed: 0,
+        height: DEFAULT_WORLD_HEIGHT,
+        generator: DEFAULT_GENERATOR,
+        generatorVersion: LEGACY_GENERATOR_VERSION,
+        createdAt: legacy.savedAt,
+        lastPlayed: legacy.savedAt,
+      };
+      tx.objectStore(WORLDS_STORE).put(info);
+      tx.objectStore(STATES_STORE).put({ ...legacy, worldId: info.id });
+      legacyChunks.forEach(chunk => chunkStore.put({ ...chunk, worldId: info.id }));
+    };
+  };
+};
+
+// Version 2 kept heightmap pixels inside the world records.
+const moveHeightmapPixels = (tx: IDBTransaction) => {
+  const request = tx.objectStore(WORLDS_STORE).getAll();
+  request.onsuccess = () => {
+    (request.result as WorldInfo[]).forEach(info => {
+      if (!info.generator?.heightmap) return;
+      const { summary, heightmap } = splitHeightmap(info);
+      tx.objectStore(WORLDS_STORE).put(summary);
+      tx.objectStore(HEIGHTMAPS_STORE).put(heightmap);
+    });
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        if (event.oldVersion < 2) {
+          db.createObjectStore(WORLDS_STORE, { keyPath: 'id' });
+          db.createObjectStore(STATES_STORE, { keyPath: 'worldId' });
+
+          if (event.oldVersion === 1) {
+            migrateLegacySave(tx);
+          } else {
+            const chunkStore = db.createObjectStore(CHUNKS_STORE, { keyPath: ['worldId', 'key'] });
+            chunkStore.createIndex('worldId', 'worldId');
+          }
+        }
+        db.createObjectStore(HEIGHTMAPS_STORE, { keyPath: 'worldId' });
+        if (event.oldVersion === 2) moveHeightmapPixels(tx);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const getWorldChunks = (tx: IDBTransaction, worldId: string): Promise<StoredChunk[]> =>
+  requestToPromise<StoredChunk[]>(tx.objectStore(CHUNKS_STORE).index('worldId').getAll(worldId));
+
+const deleteWorldChunks = (tx: IDBTransaction, worldId: string) => {
+  tx.objectStore(CHUNKS_STORE).delete(IDBKeyRange.bound([worldId, ''], [worldId, '\uffff']));
+};
+
+export const listWorlds = async (): Promise<WorldSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WORLDS_STORE, 'readonly');
+  const worlds = await requestToPromise<WorldSummary[]>(tx.objectStore(WORLDS_STORE).getAll());
+  return worlds.map(normalizeWorld).sort((a, b) => b.lastPlayed - a.lastPlayed);
+};
+
+export const createWorld = async (
+  name: string,
+  mode: WorldMode,
+  seed: number,
+  generator: GeneratorSettings = DEFAULT_GENERATOR,
+  height = DEFAULT_WORLD_HEIGHT,
+): Promise<WorldInfo> => {
+  const db = await openDatabase();
+  const now = Date.now();
+  const info: WorldInfo = {
+    id: createWorldId(),
+    name,
+    mode,
+    seed,
+    height,
+    generator,
+    generatorVersion: GENERATOR_VERSION,
+    createdAt: now,
+    lastPlayed: now,
+  };
+  const { summary, heightmap } = splitHeightmap(info);
+  const tx = db.transaction([WORLDS_STORE, HEIGHTMAPS_STORE], 'readwrite');
+  tx.objectStore(WORLDS_STORE).put(summary);
+  if (heightmap) tx.objectStore(HEIGHTMAPS_STORE).put(heightmap);
+  await transactionDone(tx);
+  return info;
+};
+
+export const renameWorld = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(WORLDS_STORE, 'readwrite');
+  const store = tx.objectStore(WORLDS_STORE);
+  const info = await requestToPromise<WorldSummary | undefined>(store.get(id));
+  if (info) store.put({ ...info, name });
+  await transactionDone(tx);
+};
+
+export const duplicateWorld = async (id: string, name: string): Promise<WorldSummary | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([WORLDS_STORE, STATES_STORE, CHUNKS_STORE, HEIGHTMAPS_STORE], 'readwrite');
+  const info = await requestToPromise<WorldSummary | undefined>(tx.objectStore(WORLDS_STORE).get(id));
+  if (!info) {
+    await transactionDone(tx);
+    return null;
+  }
+
+  const now = Date.now();
+  const copy: WorldSummary = { ...normalizeWorld(info), id: createWorldId(), name, createdAt: now, lastPlayed: now };
+  const state = await requestToPromise<SavedWorldState | undefined>(tx.objectStore(STATES_STORE).get(id));
+  const heightmap = await requestToPromise<StoredHeightmap | undefined>(tx.objectStore(HEIGHTMAPS_STORE).get(id));
+  const chunks = await getWorldChunks(tx, id);
+
+  tx.objectStore(WORLDS_STORE).put(copy);
+  if (heightmap) tx.objectStore(HEIGHTMAPS_STORE).put({ ...heightmap, worldId: copy.id });
+  if (state) tx.objectStore(STATES_STORE).put({ ...state, worldId: copy.id });
+  chunks.forEach(chunk => tx.objectStore(CHUNKS_STORE).put({ ...chunk, worldId: copy.id }));
+  await transactionDone(tx);
+  return copy;
+};
+
+export const deleteWorld = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([WORLDS_STORE, STATES_STORE, CHUNKS_STORE, HEIGHTMAPS_STORE], 'readwrite');
+  tx.objectStore(WORLDS_STORE).delete(id);
+  tx.objectStore(STATES_STORE).delete(id);
+  tx.objectStore(HEIGHTMAPS_STORE).delete(id);
+  deleteWorldChunks(tx, id);
+  await transactionDone(tx);
+};
+
+export const saveWorld = async (
+  worldId: string,
+  state: Pick<SavedWorldState, 'player' | 'inventory' | 'containers' | 'clock' | 'weather' | 'gameRules'>,
+  chunks: SavedChunk[],
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([WORLDS_STORE, STATES_STORE, CHUNKS_STORE], 'readwrite');
+  const worlds = tx.objectStore(WORLDS_STORE);
+  const info = await requestToPromise<WorldSummary | undefined>(worlds.get(worldId));
+  if (!info) {
+    await transactionDone(tx);
+    return;
+  }
+
+  const now = Date.now();
+  worlds.put({ ...info, lastPlayed: now });
+  tx.objectStore(STATES_STORE).put({ ...state, worldId, savedAt: now });
+  const chunkStore = tx.objectStore(CHUNKS_STORE);
+  chunks.forEach(chunk => chunkStore.put({ ...chunk, worldId }));
+  await transactionDone(tx);
+};
+
+const toSavedChunk = (seed: number, chunk: StoredChunk): SavedChunk => {
+  if (chunk.changes) return { key: chunk.key, changes: chunk.changes };
+
+  const current = createChunk(DEFAULT_WORLD_HEIGHT);
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let y = 0; y < DEFAULT_WORLD_HEIGHT; y++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        setChunkBlock(current, x, y, z, chunk.blocks![x][y][z].type);
+      }
+    }
+  }
+  const [chunkX, chunkZ] = chunk.key.split(',').map(Number);
+  return { key: chunk.key, changes: diffChunk(generateTerrain(seed, chunkX, chunkZ), current) };
+};
+
+export const loadWorld = async (worldId: string): Promise<SavedWorld | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([WORLDS_STORE, STATES_STORE, CHUNKS_STORE, HEIGHTMAPS_STORE], 'readonly');
+  const stored = await requestToPromise<WorldSummary | undefined>(tx.objectStore(WORLDS_STORE).get(worldId));
+  if (!stored) return null;
+  const heightmap = await requestToPromise<StoredHeightmap | undefined>(tx.objectStore(HEIGHTMAPS_STORE).get(worldId));
+  const info = joinHeightmap(normalizeWorld(stored), heightmap);
+  const state = await requestToPromise<SavedWorldState | undefined>(tx.objectStore(STATES_STORE).get(worldId));
+  const storedChunks = await getWorldChunks(tx, worldId);
+
+  const legacyKeys = new Set(storedChunks.filter(chunk => !chunk.changes).map(chunk => chunk.key));
+  const chunks = storedChunks.map(chunk => toSavedChunk(info.seed, chunk));
+  if (legacyKeys.size > 0) {
+    const upgradeTx = db.transaction(CHUNKS_STORE, 'readwrite');
+    chunks
+      .filter(chunk => legacyKeys.has(chunk.key))
+      .forEach(chunk => upgradeTx.objectStore(CHUNKS_STORE).put({ ...chunk, worldId }));
+    await transactionDone(upgradeTx);
+  }
+
+  return { info, state: state ?? null, chunks };
+};
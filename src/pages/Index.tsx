@@ -1,214 +1,347 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import Icon from '@/components/ui/icon';
 import { useToast } from '@/hooks/use-toast';
+import type { Block, FallingBlockEntity, GraphicsSettings, InventorySlot, ItemEntity, ItemType, Player, TNTEntity } from '@/lib/game-types';
+import { hashCoords, parseSeed } from '@/lib/random';
+import { AIR_BLOCK, CHUNK_SIZE, DEFAULT_WORLD_HEIGHT, OPEN_SKY_LIGHT, WORLD_HEIGHTS, isBlockType } from '@/lib/chunk';
+import { UNLOADED_BLOCK, createChunkManager, type ChunkManager, type ChunkStats } from '@/lib/chunk-manager';
+import { createBlockUpdates, type BlockUpdates } from '@/lib/block-updates';
+import { MAX_LIGHT, createLighting, getBlockLight, getBrightness, getSkyLight, type Lighting } from '@/lib/lighting';
+import {
+  WEATHER_NAMES,
+  addSnowLayer,
+  advanceWeather,
+  createWeather,
+  getSnowHeight,
+  getTopBlockY,
+  getWeatherDarkness,
+  getWeatherSky,
+  shouldStrikeLightning,
+  type Weather,
+} from '@/lib/weather';
+import { runCommand } from '@/lib/commands';
+import { DEFAULT_GAME_RULES, type GameRules } from '@/lib/game-rules';
+import { PERSISTENT_LEAVES } from '@/lib/plants';
+import { runRandomTicks } from '@/lib/random-ticks';
+import { getFluidHeight, isFluid } from '@/lib/fluids';
+import { stepFallingBlock } from '@/lib/falling-blocks';
+import { TNT_POWER, getExplodedBlocks, getExplosionImpact, type BoundingBox, type Explosion } from '@/lib/explosions';
+import { ITEM_PICKUP_RANGE, createItemEntity, stepItemEntity } from '@/lib/item-entities';
+import {
+  TICKS_PER_SECOND,
+  advanceClock,
+  createClock,
+  formatTimeOfDay,
+  getDaylight,
+  getSkyColors,
+  getSunAngle,
+  getTimeOfDay,
+  setTimeOfDay,
+  type WorldClock,
+} from '@/lib/day-night';
+import {
+  DEFAULT_FLAT_LAYERS,
+  GENERATOR_VERSION,
+  WORLD_PRESETS,
+  createGenerator,
+  getWorldPreset,
+  formatFlatLayers,
+  parseFlatLayers,
+  type SpawnPoint,
+  type WorldPresetId,
+} from '@/lib/generators';
+import { decodeHeightmap, type HeightmapEdge, type HeightmapSettings } from '@/lib/heightmap';
+import { createTerrainWorkerPool } from '@/lib/terrain-worker-pool';
+import { DEFAULT_TERRAIN_CONFIG, parseTerrainConfig, resolveLootTables, type TerrainConfig } from '@/lib/terrain-config';
+import { CREATIVE_BLOCKS, getBlockDrop, getBlockProperties, getItemProperties } from '@/lib/blocks';
+import { CHEST_SIZE, LOOT_TABLES, createEmptySlots, rollLoot, type LootTable, type LootTableId } from '@/lib/loot';
+import {
+  createWorld,
+  deleteWorld,
+  duplicateWorld,
+  listWorlds,
+  loadWorld,
+  renameWorld,
+  saveWorld,
+  type WorldSummary,
+  type WorldMode,
+} from '@/lib/world-storage';
+
+type GameMode = 'menu' | 'worlds' | 'loading' | 'playing' | 'paused' | 'inventory' | 'creative' | 'settings' | 'chest';
+
+interface HeightmapDraft extends Omit<HeightmapSettings, 'width' | 'depth' | 'pixels'> {
+  image: Pick<HeightmapSettings, 'width' | 'depth' | 'pixels'> | null;
+  fileName: string;
+}
 
-type GameMode = 'menu' | 'playing' | 'inventory' | 'creative' | 'settings';
-type BlockType = 'air' | 'grass' | 'dirt' | 'stone' | 'wood' | 'planks' | 'leaves' | 'water' | 'sand' | 'cobblestone' | 'glass' | 'brick' | 'tnt';
+const DEFAULT_HEIGHTMAP_DRAFT: HeightmapDraft = { image: null, fileName: '', scale: 40, seaLevel: 20, edge: 'border' };
 
-interface Block {
-  type: BlockType;
+interface WorldDialogState {
+  kind: 'create' | 'rename';
+  world?: WorldSummary;
 }
 
-interface TNTEntity {
+interface LightningStrike {
   x: number;
   y: number;
   z: number;
-  velX: number;
-  velY: number;
-  velZ: number;
-  fuse: number;
+  time: number;
 }
 
-interface Player {
-  x: number;
-  y: number;
-  z: number;
-  velY: number;
-  angleX: number;
-  angleY: number;
-  selectedSlot: number;
-  onGround: boolean;
-  mode: 'survival' | 'creative';
-}
+// Inventory swatch for an item; striped items get a diagonal pattern.
+const getItemSwatch = (item: ItemType) => {
+  const { color, stripeColor } = getItemProperties(item);
+  return {
+    backgroundColor: color,
+    backgroundImage: stripeColor
+      ? `linear-gradient(45deg, ${color} 25%, ${stripeColor} 25%, ${stripeColor} 50%, ${color} 50%, ${color} 75%, ${stripeColor} 75%)`
+      : 'none',
+  };
+};
 
-interface InventorySlot {
-  type: BlockType | null;
-  count: number;
-}
+const DEFAULT_CONFIG_TEXT = JSON.stringify(DEFAULT_TERRAIN_CONFIG, null, 2);
 
-interface GraphicsSettings {
-  renderDistance: number;
-  fov: number;
-  rayDensity: number;
-  shadows: boolean;
-}
+const AUTOSAVE_INTERVAL = 30000;
+const CHUNK_UPDATE_INTERVAL = 500;
+const TICK_MS = 1000 / TICKS_PER_SECOND;
+const MAX_CATCH_UP_TICKS = 5;
 
-const BLOCK_COLORS: Record<BlockType, string> = {
-  air: 'transparent',
-  grass: '#6B8E23',
-  dirt: '#8B4513',
-  stone: '#808080',
-  wood: '#654321',
-  planks: '#DEB887',
-  leaves: '#228B22',
-  water: '#4169E1',
-  sand: '#F4A460',
-  cobblestone: '#6B6B6B',
-  glass: '#87CEEB',
-  brick: '#B22222',
-  tnt: '#FF0000',
-};
+const MAX_HEALTH = 20;
+// Share of knockback velocity the player keeps each tick.
+const KNOCKBACK_DRAG = 0.85;
 
-const ALL_BLOCKS: BlockType[] = ['grass', 'dirt', 'stone', 'wood', 'planks', 'leaves', 'sand', 'cobblestone', 'glass', 'brick', 'water', 'tnt'];
+// Falling this far below the world in void-like presets puts the player back at spawn.
+const VOID_RESPAWN_Y = -32;
 
-const CHUNK_SIZE = 16;
-const WORLD_HEIGHT = 64;
+// Snow settles and lightning strikes within this many blocks of the player.
+const SNOW_RADIUS = 32;
+const LIGHTNING_RADIUS = 48;
+// Milliseconds the screen stays lit after a lightning strike.
+const LIGHTNING_FLASH = 300;
+const RAIN_DROPS = 300;
+const SNOWFLAKES = 200;
 
-const generateTerrain = (chunkX: number, chunkZ: number): Block[][][] => {
-  const chunk: Block[][][] = Array(CHUNK_SIZE).fill(null).map(() =>
-    Array(WORLD_HEIGHT).fill(null).map(() =>
-      Array(CHUNK_SIZE).fill(null).map(() => ({ type: 'air' as BlockType }))
-    )
-  );
+// Fluids and snow layers only fill their block up to the surface.
+const getSurfaceHeight = (block: Block) => {
+  if (isFluid(block.type)) return getFluidHeight(block);
+  return block.type === 'snow_layer' ? getSnowHeight(block) : 1;
+};
 
-  for (let x = 0; x < CHUNK_SIZE; x++) {
-    for (let z = 0; z < CHUNK_SIZE; z++) {
-      const worldX = chunkX * CHUNK_SIZE + x;
-      const worldZ = chunkZ * CHUNK_SIZE + z;
-      
-      const baseHeight = 32;
-      const noise1 = Math.sin(worldX * 0.05) * Math.cos(worldZ * 0.05) * 3;
-      const noise2 = Math.sin(worldX * 0.02) * Math.cos(worldZ * 0.02) * 8;
-      const height = Math.floor(baseHeight + noise1 + noise2);
-      
-      const biome = Math.sin(worldX * 0.01) + Math.cos(worldZ * 0.01);
-      
-      for (let y = 0; y < height; y++) {
-        if (y === 0) {
-          chunk[x][y][z] = { type: 'stone' };
-        } else if (y < height - 4) {
-          chunk[x][y][z] = { type: 'stone' };
-        } else if (y < height - 1) {
-          chunk[x][y][z] = { type: 'dirt' };
-        } else {
-          if (biome > 0.5) {
-            chunk[x][y][z] = { type: 'sand' };
-          } else {
-            chunk[x][y][z] = { type: 'grass' };
-          }
-        }
+// Whether a ray at height `y` has left the world and is moving further away from it, so nothing more can be hit.
+const isOutsideWorld = (y: number, dirY: number, worldHeight: number) =>
+  (y < 0 && dirY <= 0) || (y >= worldHeight && dirY >= 0);
+
+const createSpawnPlayer = (mode: WorldMode, spawn: SpawnPoint): Player => ({
+  x: spawn.x,
+  y: spawn.y,
+  z: spawn.z,
+  velX: 0,
+  velY: 0,
+  velZ: 0,
+  health: MAX_HEALTH,
+  angleX: 0,
+  angleY: 0,
+  selectedSlot: 0,
+  onGround: false,
+  mode,
+});
+
+const createStartInventory = (mode: WorldMode): InventorySlot[] => {
+  const startInventory: InventorySlot[] = Array(36).fill(null).map(() => ({ type: null, count: 0 }));
+
+  if (mode === 'creative') {
+    CREATIVE_BLOCKS.forEach((blockType, index) => {
+      if (index < 36) {
+        startInventory[index] = { type: blockType, count: getBlockProperties(blockType).stackSize };
       }
-      
-      if (biome <= 0.5 && Math.random() < 0.015 && height < WORLD_HEIGHT - 6) {
-        for (let y = height; y < height + 5; y++) {
-          chunk[x][y][z] = { type: 'wood' };
-        }
-        for (let dx = -2; dx <= 2; dx++) {
-          for (let dz = -2; dz <= 2; dz++) {
-            for (let dy = 0; dy < 3; dy++) {
-              const nx = x + dx;
-              const nz = z + dz;
-              const ny = height + 4 + dy;
-              if (nx >= 0 && nx < CHUNK_SIZE && nz >= 0 && nz < CHUNK_SIZE && ny < WORLD_HEIGHT) {
-                if (Math.abs(dx) + Math.abs(dz) <= 2) {
-                  chunk[nx][ny][nz] = { type: 'leaves' };
-                }
-              }
-            }
-          }
-        }
-      }
-      
-      if (biome > 0.5 && height > 30 && height < 34) {
-        chunk[x][height][z] = { type: 'water' };
-        chunk[x][height + 1][z] = { type: 'water' };
-      }
-    }
+    });
   }
 
-  return chunk;
+  return startInventory;
 };
 
+// Fills matching stacks first, then empty slots. Returns how many items did not fit.
+const addToInventory = (slots: InventorySlot[], item: ItemType, count: number) => {
+  const { stackSize } = getItemProperties(item);
+  let left = count;
+  for (const slot of slots) {
+    if (left === 0) break;
+    if (slot.type === item && slot.count < stackSize) {
+      const moved = Math.min(left, stackSize - slot.count);
+      slot.count += moved;
+      left -= moved;
+    }
+  }
+  for (const slot of slots) {
+    if (left === 0) break;
+    if (slot.type === null) {
+      const moved = Math.min(left, stackSize);
+      slot.type = item;
+      slot.count = moved;
+      left -= moved;
+    }
+  }
+  return left;
+};
+
+const getContainerKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+// Positions are the top of the player, the centre of TNT and the bottom of dropped items.
+const getPlayerBox = ({ x, y, z }: Player): BoundingBox => ({ minX: x - 0.3, minY: y - 1.8, minZ: z - 0.3, maxX: x + 0.3, maxY: y, maxZ: z + 0.3 });
+const getTntBox = ({ x, y, z }: TNTEntity): BoundingBox => ({ minX: x - 0.5, minY: y - 0.5, minZ: z - 0.5, maxX: x + 0.5, maxY: y + 0.5, maxZ: z + 0.5 });
+const getItemBox = ({ x, y, z }: ItemEntity): BoundingBox => ({ minX: x - 0.125, minY: y, minZ: z - 0.125, maxX: x + 0.125, maxY: y + 0.25, maxZ: z + 0.125 });
+
 export default function Index() {
-  const [gameMode, setGameMode] = useState<GameMode>('menu');
-  const [player, setPlayer] = useState<Player>({
-    x: 8,
-    y: 45,
-    z: 8,
-    velY: 0,
-    angleX: 0,
-    angleY: 0,
-    selectedSlot: 0,
-    onGround: false,
-    mode: 'survival',
-  });
-  const [inventory, setInventory] = useState<InventorySlot[]>(
-    Array(36).fill(null).map(() => ({ type: null, count: 0 }))
-  );
+  const { id: worldId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [gameMode, setGameMode] = useState<GameMode>(worldId ? 'loading' : 'menu');
+  const [player, setPlayer] = useState<Player>(() => createSpawnPlayer('survival', { x: 8, y: 40, z: 8 }));
+  const [inventory, setInventory] = useState<InventorySlot[]>(() => createStartInventory('survival'));
   const [tntEntities, setTntEntities] = useState<TNTEntity[]>([]);
+  const [fallingBlocks, setFallingBlocks] = useState<FallingBlockEntity[]>([]);
+  const [items, setItems] = useState<ItemEntity[]>([]);
+  const [clock, setClock] = useState<WorldClock>(createClock);
+  const [weather, setWeather] = useState<Weather>(createWeather);
+  // Text of the command line while it is open.
+  const [commandDraft, setCommandDraft] = useState<string | null>(null);
   const [graphics, setGraphics] = useState<GraphicsSettings>({
     renderDistance: 10,
     fov: 75,
     rayDensity: 2,
     shadows: true,
+    chunkMemoryMb: 16,
   });
   const [keys, setKeys] = useState<Set<string>>(new Set());
   const [isMobile, setIsMobile] = useState(false);
   const [joystickPos, setJoystickPos] = useState({ x: 0, y: 0 });
   const [lookJoystick, setLookJoystick] = useState({ x: 0, y: 0 });
   const [isPointerLocked, setIsPointerLocked] = useState(false);
+  const [worlds, setWorlds] = useState<WorldSummary[]>([]);
+  const [worldDialog, setWorldDialog] = useState<WorldDialogState | null>(null);
+  const [worldNameDraft, setWorldNameDraft] = useState('');
+  const [worldModeDraft, setWorldModeDraft] = useState<WorldMode>('survival');
+  const [worldSeedDraft, setWorldSeedDraft] = useState('');
+  const [worldPresetDraft, setWorldPresetDraft] = useState<WorldPresetId>('default');
+  const [worldHeightDraft, setWorldHeightDraft] = useState(DEFAULT_WORLD_HEIGHT);
+  const [flatLayersDraft, setFlatLayersDraft] = useState(formatFlatLayers(DEFAULT_FLAT_LAYERS));
+  const [showAdvancedDraft, setShowAdvancedDraft] = useState(false);
+  const [configDraft, setConfigDraft] = useState(DEFAULT_CONFIG_TEXT);
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
+  const [heightmapDraft, setHeightmapDraft] = useState<HeightmapDraft>(DEFAULT_HEIGHTMAP_DRAFT);
+  const [worldToDelete, setWorldToDelete] = useState<WorldSummary | null>(null);
+  const [showDebug, setShowDebug] = useState(false);
+  const [chunkStats, setChunkStats] = useState<ChunkStats>({ loaded: 0, pending: 0, modified: 0, bytes: 0 });
+  const [openChest, setOpenChest] = useState<InventorySlot[] | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
-  const worldRef = useRef<Map<string, Block[][][]>>(new Map());
+  const lastFrameRef = useRef(0);
+  const tickBacklogRef = useRef(0);
+  const worldRef = useRef<ChunkManager | null>(null);
+  const blockUpdatesRef = useRef<BlockUpdates | null>(null);
+  const lightingRef = useRef<Lighting | null>(null);
+  const playerRef = useRef(player);
+  const inventoryRef = useRef(inventory);
+  const clockRef = useRef(clock);
+  const weatherRef = useRef(weather);
+  const gameRulesRef = useRef<GameRules>(DEFAULT_GAME_RULES);
+  const lightningRef = useRef<LightningStrike | null>(null);
+  const activeWorldIdRef = useRef<string | null>(null);
+  const worldSeedRef = useRef(0);
+  const lootTablesRef = useRef<Record<LootTableId, LootTable>>(LOOT_TABLES);
+  const spawnRef = useRef<SpawnPoint>({ x: 8, y: 40, z: 8 });
+  const containersRef = useRef<Record<string, InventorySlot[]>>({});
+  const savingRef = useRef<Promise<void>>(Promise.resolve());
   const { toast } = useToast();
 
+  playerRef.current = player;
+  inventoryRef.current = inventory;
+  clockRef.current = clock;
+  weatherRef.current = weather;
+
+  const refreshWorlds = useCallback(() => {
+    listWorlds()
+      .then(setWorlds)
+      .catch(() => toast({ title: 'Не удалось прочитать список миров', variant: 'destructive' }));
+  }, [toast]);
+
   useEffect(() => {
     setIsMobile(/iPhone|iPad|iPod|Android/i.test(navigator.userAgent));
   }, []);
 
-  const getChunkKey = (chunkX: number, chunkZ: number) => `${chunkX},${chunkZ}`;
+  const getBlock = useCallback((x: number, y: number, z: number): Block => (
+    worldRef.current ? worldRef.current.getBlock(x, y, z) : AIR_BLOCK
+  ), []);
 
-  const getBlock = useCallback((x: number, y: number, z: number): Block => {
-    const chunkX = Math.floor(x / CHUNK_SIZE);
-    const chunkZ = Math.floor(z / CHUNK_SIZE);
-    const key = getChunkKey(chunkX, chunkZ);
-    
-    if (!worldRef.current.has(key)) {
-      worldRef.current.set(key, generateTerrain(chunkX, chunkZ));
-    }
-    
-    const chunk = worldRef.current.get(key)!;
-    const localX = ((x % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    const localZ = ((z % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    
-    if (y < 0 || y >= WORLD_HEIGHT) return { type: 'air' };
-    
-    return chunk[localX][y][localZ];
+  const setBlock = useCallback((x: number, y: number, z: number, block: Block) => {
+    blockUpdatesRef.current?.setBlock(x, y, z, block);
   }, []);
 
-  const setBlock = useCallback((x: number, y: number, z: number, block: Block) => {
-    const chunkX = Math.floor(x / CHUNK_SIZE);
-    const chunkZ = Math.floor(z / CHUNK_SIZE);
-    const key = getChunkKey(chunkX, chunkZ);
-    
-    if (!worldRef.current.has(key)) {
-      worldRef.current.set(key, generateTerrain(chunkX, chunkZ));
-    }
-    
-    const chunk = worldRef.current.get(key)!;
-    const localX = ((x % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    const localZ = ((z % CHUNK_SIZE) + CHUNK_SIZE) % CHUNK_SIZE;
-    
-    if (y >= 0 && y < WORLD_HEIGHT) {
-      chunk[localX][y][localZ] = block;
+  const isAreaLoaded = useCallback((x: number, z: number) => {
+    const world = worldRef.current;
+    if (!world) return false;
+    return world.isLoaded(x - 0.3, z - 0.3) && world.isLoaded(x + 0.3, z - 0.3) &&
+      world.isLoaded(x - 0.3, z + 0.3) && world.isLoaded(x + 0.3, z + 0.3);
+  }, []);
+
+  const saveGame = useCallback(() => {
+    const activeWorldId = activeWorldIdRef.current;
+    const world = worldRef.current;
+    if (!activeWorldId || !world) return savingRef.current;
+
+    const chunks = world.takeDirtyChanges();
+
+    savingRef.current = savingRef.current
+      .then(() => saveWorld(activeWorldId, {
+        player: playerRef.current,
+        inventory: inventoryRef.current,
+        containers: containersRef.current,
+        clock: clockRef.current,
+        weather: weatherRef.current,
+        gameRules: gameRulesRef.current,
+      }, chunks))
+      .catch(() => {
+        world.markDirty(chunks.map(chunk => chunk.key));
+        toast({ title: 'Не удалось сохранить мир', variant: 'destructive' });
+      });
+    return savingRef.current;
+  }, [toast]);
+
+  // Structure chests roll their loot table on first access, seeded by position so it does not depend on when they are opened.
+  const getChestContents = useCallback((x: number, y: number, z: number) => {
+    const key = getContainerKey(x, y, z);
+    let contents = containersRef.current[key];
+    if (!contents) {
+      const table = worldRef.current?.getLootTable(x, y, z);
+      contents = table
+        ? rollLoot(lootTablesRef.current[table], hashCoords(worldSeedRef.current, x, y, z))
+        : createEmptySlots(CHEST_SIZE);
+      containersRef.current[key] = contents;
     }
+    return contents;
   }, []);
 
   const igniteTNT = useCallback((x: number, y: number, z: number) => {
@@ -224,64 +357,339 @@ export default function Index() {
     setBlock(x, y, z, { type: 'air' });
   }, [setBlock]);
 
-  const explodeTNT = useCallback((x: number, y: number, z: number) => {
-    const radius = 4;
-    for (let dx = -radius; dx <= radius; dx++) {
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dz = -radius; dz <= radius; dz++) {
-          const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
-          if (dist <= radius) {
-            const bx = Math.floor(x + dx);
-            const by = Math.floor(y + dy);
-            const bz = Math.floor(z + dz);
-            const block = getBlock(bx, by, bz);
-            
-            if (block.type === 'tnt') {
-              igniteTNT(bx, by, bz);
-            } else if (block.type !== 'air' && Math.random() > dist / radius * 0.5) {
-              setBlock(bx, by, bz, { type: 'air' });
-            }
-          }
-        }
+  // Breaks what the blast reaches, drops some of it as items and throws nearby entities away from the centre.
+  const explode = useCallback((explosion: Explosion) => {
+    const world = blockUpdatesRef.current;
+    if (!world) return;
+
+    const drops: ItemEntity[] = [];
+    getExplodedBlocks(world, explosion).forEach(({ x, y, z, block }) => {
+      if (block.type === 'tnt') {
+        igniteTNT(x, y, z);
+        return;
+      }
+      if (getBlockProperties(block.type).hardness < 0) return;
+      setBlock(x, y, z, { type: 'air' });
+
+      if (block.type === 'chest') {
+        getChestContents(x, y, z).forEach(slot => {
+          if (slot.type) drops.push(createItemEntity(x + 0.5, y + 0.5, z + 0.5, slot.type, slot.count));
+        });
+        containersRef.current[getContainerKey(x, y, z)] = createEmptySlots(CHEST_SIZE);
       }
+      const drop = getBlockDrop(block.type);
+      // Stronger blasts destroy more of what they break, so a smaller share survives as items.
+      if (drop && Math.random() < 1 / explosion.power) drops.push(createItemEntity(x + 0.5, y + 0.5, z + 0.5, drop, 1));
+    });
+
+    const player = playerRef.current;
+    const impact = player.mode === 'survival' ? getExplosionImpact(world, explosion, getPlayerBox(player)) : null;
+    if (impact && player.health <= impact.damage) {
+      setPlayer(prev => ({ ...prev, ...spawnRef.current, velX: 0, velY: 0, velZ: 0, health: MAX_HEALTH }));
+      toast({ title: 'Вы погибли', variant: 'destructive' });
+    } else if (impact) {
+      setPlayer(prev => ({
+        ...prev,
+        velX: prev.velX + impact.velX,
+        velY: prev.velY + impact.velY,
+        velZ: prev.velZ + impact.velZ,
+        health: prev.health - impact.damage,
+      }));
+    }
+
+    setTntEntities(prev => prev.map(tnt => {
+      const push = getExplosionImpact(world, explosion, getTntBox(tnt));
+      return push ? { ...tnt, velX: tnt.velX + push.velX, velY: tnt.velY + push.velY, velZ: tnt.velZ + push.velZ } : tnt;
+    }));
+    setItems(prev => [
+      ...prev.map(item => {
+        const push = getExplosionImpact(world, explosion, getItemBox(item));
+        return push ? { ...item, velX: item.velX + push.velX, velY: item.velY + push.velY, velZ: item.velZ + push.velZ } : item;
+      }),
+      ...drops,
+    ]);
+  }, [setBlock, igniteTNT, getChestContents, toast]);
+
+  // Lightning hits the top of a random column near the player, lighting TNT and setting flammable blocks on fire.
+  const strikeLightning = useCallback(() => {
+    const world = worldRef.current;
+    if (!world) return;
+    const x = Math.floor(playerRef.current.x + (Math.random() * 2 - 1) * LIGHTNING_RADIUS);
+    const z = Math.floor(playerRef.current.z + (Math.random() * 2 - 1) * LIGHTNING_RADIUS);
+    const y = getTopBlockY(world, x, z, world.height);
+    if (y < 0) return;
+
+    lightningRef.current = { x: x + 0.5, y: y + 1, z: z + 0.5, time: performance.now() };
+    const block = getBlock(x, y, z);
+    if (block.type === 'tnt') {
+      igniteTNT(x, y, z);
+    } else if (getBlockProperties(block.type).flammable && y + 1 < world.height) {
+      setBlock(x, y + 1, z, { type: 'fire' });
     }
   }, [getBlock, setBlock, igniteTNT]);
 
-  const startGame = (mode: 'survival' | 'creative') => {
-    worldRef.current.clear();
+  const submitCommand = () => {
+    if (commandDraft === null) return;
+    setCommandDraft(null);
+    if (!commandDraft.replace('/', '').trim()) return;
+    const result = runCommand(commandDraft, {
+      setWeather: (type, seconds) => setWeather(createWeather(type, seconds)),
+      gameRules: gameRulesRef.current,
+      setGameRule: (name, value) => {
+        gameRulesRef.current = { ...gameRulesRef.current, [name]: value };
+      },
+    });
+    toast({ title: result.message, variant: result.ok ? 'default' : 'destructive' });
+  };
+
+  const closeWorld = useCallback(() => {
+    if (!activeWorldIdRef.current) return;
+    saveGame();
+    activeWorldIdRef.current = null;
+    worldRef.current?.dispose();
+    worldRef.current = null;
+    blockUpdatesRef.current = null;
+    lightingRef.current = null;
     setTntEntities([]);
-    const startInventory = Array(36).fill(null).map(() => ({ type: null, count: 0 }));
-    
-    if (mode === 'creative') {
-      ALL_BLOCKS.forEach((blockType, index) => {
-        if (index < 36) {
-          startInventory[index] = { type: blockType, count: 64 };
-        }
-      });
+    setFallingBlocks([]);
+    setItems([]);
+    setCommandDraft(null);
+    lightningRef.current = null;
+  }, [saveGame]);
+
+  useEffect(() => {
+    if (!worldId) {
+      closeWorld();
+      setGameMode(prev => (prev === 'worlds' || prev === 'settings' ? prev : 'menu'));
+      savingRef.current.then(refreshWorlds);
+      return;
     }
-    
-    setInventory(startInventory);
-    setPlayer({
-      x: 8,
-      y: 45,
-      z: 8,
-      velY: 0,
-      angleX: 0,
-      angleY: 0,
-      selectedSlot: 0,
-      onGround: false,
-      mode,
+
+    if (activeWorldIdRef.current === worldId) return;
+    closeWorld();
+    setGameMode('loading');
+
+    let cancelled = false;
+    const openWorld = async () => {
+      await savingRef.current;
+      const saved = await loadWorld(worldId);
+      if (cancelled) return;
+      if (!saved) {
+        toast({ title: 'Мир не найден', variant: 'destructive' });
+        navigate('/', { replace: true });
+        return;
+      }
+      // Its edits were saved on top of terrain this build cannot generate.
+      if (saved.info.generatorVersion > GENERATOR_VERSION) {
+        toast({ title: 'Мир создан в более новой версии игры', variant: 'destructive' });
+        navigate('/', { replace: true });
+        return;
+      }
+
+      const { seed, height, generator } = saved.info;
+      const pool = createTerrainWorkerPool({ seed, height, generator }, (chunkX, chunkZ, chunk) => {
+        if (world.receiveChunk(chunkX, chunkZ, chunk)) lighting.lightChunk(chunkX, chunkZ);
+      }, (chunkX, chunkZ, message) => {
+        world.failChunk(chunkX, chunkZ);
+        toast({ title: `Не удалось создать чанк ${chunkX}, ${chunkZ}`, description: message, variant: 'destructive' });
+      });
+      const world = createChunkManager(pool, height);
+      world.restoreChanges(saved.chunks);
+      worldRef.current = world;
+      const lighting = createLighting(world);
+      lightingRef.current = lighting;
+      blockUpdatesRef.current = createBlockUpdates(lighting, entity => setFallingBlocks(prev => [...prev, entity]));
+      activeWorldIdRef.current = saved.info.id;
+      worldSeedRef.current = seed;
+      lootTablesRef.current = resolveLootTables(generator.config ?? DEFAULT_TERRAIN_CONFIG);
+      spawnRef.current = createGenerator(seed, generator, height).getSpawnPoint();
+      containersRef.current = saved.state?.containers ?? {};
+      setClock(saved.state?.clock ?? createClock());
+      setWeather(saved.state?.weather ?? createWeather());
+      gameRulesRef.current = { ...DEFAULT_GAME_RULES, ...saved.state?.gameRules };
+      if (saved.state) {
+        setInventory(saved.state.inventory);
+        // Worlds saved before players had health load with it full.
+        setPlayer({ ...saved.state.player, velX: 0, velY: 0, velZ: 0, health: saved.state.player.health ?? MAX_HEALTH });
+      } else {
+        setInventory(createStartInventory(saved.info.mode));
+        setPlayer(createSpawnPlayer(saved.info.mode, spawnRef.current));
+      }
+      setGameMode('playing');
+    };
+
+    openWorld().catch(() => {
+      if (cancelled) return;
+      toast({ title: 'Не удалось загрузить мир', variant: 'destructive' });
+      navigate('/', { replace: true });
     });
-    setGameMode('playing');
+
+    return () => {
+      cancelled = true;
+    };
+  }, [worldId, closeWorld, refreshWorlds, navigate, toast]);
+
+  const openWorldDialog = (kind: WorldDialogState['kind'], world?: WorldSummary) => {
+    setWorldDialog({ kind, world });
+    setWorldNameDraft(world ? world.name : '');
+    setWorldModeDraft(world ? world.mode : 'survival');
+    setWorldSeedDraft('');
+    setWorldPresetDraft('default');
+    setWorldHeightDraft(DEFAULT_WORLD_HEIGHT);
+    setFlatLayersDraft(formatFlatLayers(DEFAULT_FLAT_LAYERS));
+    setShowAdvancedDraft(false);
+    setConfigDraft(DEFAULT_CONFIG_TEXT);
+    setConfigErrors([]);
+    setHeightmapDraft(DEFAULT_HEIGHTMAP_DRAFT);
+  };
+
+  // Keeps the heightmap sliders within the new limit when a lower world is picked.
+  const changeWorldHeightDraft = (height: number) => {
+    setWorldHeightDraft(height);
+    setHeightmapDraft(prev => ({
+      ...prev,
+      scale: Math.min(prev.scale, height - 9),
+      seaLevel: Math.min(prev.seaLevel, height - 8),
+    }));
+  };
+
+  const selectHeightmapFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const image = await decodeHeightmap(file);
+      setHeightmapDraft(prev => ({ ...prev, image, fileName: file.name }));
+    } catch {
+      toast({ title: 'Не удалось прочитать изображение', variant: 'destructive' });
+    }
+  };
+
+  const submitWorldDialog = async () => {
+    if (!worldDialog) return;
+    const name = worldNameDraft.trim() || 'Новый мир';
+
+    try {
+      if (worldDialog.kind === 'create') {
+        const layers = worldPresetDraft === 'superflat' ? parseFlatLayers(flatLayersDraft) : undefined;
+        if (layers === null) {
+          toast({ title: 'Не удалось разобрать слои', description: 'Пример: bedrock,3*dirt,grass', variant: 'destructive' });
+          return;
+        }
+        let heightmap: HeightmapSettings | undefined;
+        if (worldPresetDraft === 'heightmap') {
+          const { image, scale, seaLevel, edge } = heightmapDraft;
+          if (!image) {
+            toast({ title: 'Выберите изображение карты высот', variant: 'destructive' });
+            return;
+          }
+          heightmap = { ...image, scale, seaLevel, edge };
+        }
+        let config: TerrainConfig | undefined;
+        if (showAdvancedDraft && getWorldPreset(worldPresetDraft).configurable) {
+          const result = parseTerrainConfig(configDraft, worldHeightDraft);
+          if (!result.success) {
+            setConfigErrors(result.errors);
+            return;
+          }
+          config = result.config;
+        }
+        const generator = { preset: worldPresetDraft, layers, config, heightmap };
+        const info = await createWorld(name, worldModeDraft, parseSeed(worldSeedDraft), generator, worldHeightDraft);
+        setWorldDialog(null);
+        navigate(`/world/${info.id}`);
+      } else if (worldDialog.world) {
+        await renameWorld(worldDialog.world.id, name);
+        setWorldDialog(null);
+        refreshWorlds();
+      }
+    } catch {
+      toast({ title: 'Не удалось сохранить мир', variant: 'destructive' });
+    }
+  };
+
+  const copyWorld = async (world: WorldSummary) => {
+    try {
+      await duplicateWorld(world.id, `${world.name} (копия)`);
+      toast({ title: `Мир «${world.name}» скопирован` });
+      refreshWorlds();
+    } catch {
+      toast({ title: 'Не удалось скопировать мир', variant: 'destructive' });
+    }
+  };
+
+  const confirmDeleteWorld = async () => {
+    if (!worldToDelete) return;
+    try {
+      await deleteWorld(worldToDelete.id);
+      refreshWorlds();
+    } catch {
+      toast({ title: 'Не удалось удалить мир', variant: 'destructive' });
+    }
+    setWorldToDelete(null);
   };
 
+  useEffect(() => {
+    if (!activeWorldIdRef.current || gameMode === 'loading') return;
+
+    const interval = window.setInterval(saveGame, AUTOSAVE_INTERVAL);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveGame();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [gameMode, saveGame]);
+
+  useEffect(() => {
+    if (gameMode !== 'playing') return;
+
+    const interval = window.setInterval(() => {
+      const world = worldRef.current;
+      if (!world) return;
+
+      const current = playerRef.current;
+      const keepRadius = Math.ceil(graphics.renderDistance / CHUNK_SIZE) + 1;
+      const budgetBytes = graphics.chunkMemoryMb * 1024 * 1024;
+      if (world.update(Math.floor(current.x / CHUNK_SIZE), Math.floor(current.z / CHUNK_SIZE), keepRadius, budgetBytes)) {
+        saveGame();
+      }
+      if (showDebug) {
+        setChunkStats(world.getStats());
+      }
+    }, CHUNK_UPDATE_INTERVAL);
+
+    return () => window.clearInterval(interval);
+  }, [gameMode, graphics.renderDistance, graphics.chunkMemoryMb, showDebug, saveGame]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'F3') {
+        e.preventDefault();
+        setShowDebug(prev => !prev);
+        return;
+      }
+
+      if (gameMode === 'playing' && commandDraft !== null) return;
+
       if (gameMode === 'playing') {
+        if (e.key === '/' || e.key === 't' || e.key === 'T') {
+          e.preventDefault();
+          setKeys(new Set());
+          setCommandDraft('/');
+          if (document.pointerLockElement) {
+            document.exitPointerLock();
+          }
+          return;
+        }
+
         setKeys(prev => new Set(prev).add(e.key.toLowerCase()));
         
         if (e.key === 'Escape') {
-          setGameMode('menu');
+          setGameMode('paused');
           if (document.pointerLockElement) {
             document.exitPointerLock();
           }
@@ -304,8 +712,10 @@ export default function Index() {
         if (e.key >= '1' && e.key <= '9') {
           setPlayer(prev => ({ ...prev, selectedSlot: parseInt(e.key) - 1 }));
         }
-      } else if ((gameMode === 'inventory' || gameMode === 'creative' || gameMode === 'settings') && (e.key === 'Escape' || e.key === 'e' || e.key === 'E' || e.key === 'c' || e.key === 'C')) {
+      } else if (gameMode === 'paused' && e.key === 'Escape') {
         setGameMode('playing');
+      } else if ((gameMode === 'inventory' || gameMode === 'creative' || gameMode === 'settings' || gameMode === 'chest') && (e.key === 'Escape' || e.key === 'e' || e.key === 'E' || e.key === 'c' || e.key === 'C')) {
+        setGameMode(activeWorldIdRef.current ? 'playing' : 'menu');
       }
     };
 
@@ -328,7 +738,7 @@ export default function Index() {
     };
 
     const handleClick = (e: MouseEvent) => {
-      if (gameMode === 'playing' && !isMobile) {
+      if (gameMode === 'playing' && !isMobile && commandDraft === null) {
         if (!isPointerLocked && canvasRef.current) {
           canvasRef.current.requestPointerLock();
         } else {
@@ -364,22 +774,25 @@ export default function Index() {
       window.removeEventListener('contextmenu', handleContextMenu);
       document.removeEventListener('pointerlockchange', handlePointerLockChange);
     };
-  }, [gameMode, isMobile, isPointerLocked]);
+  }, [gameMode, isMobile, isPointerLocked, navigate, commandDraft]);
 
   const raycast = useCallback((maxDist: number = 5): { x: number; y: number; z: number; face: number } | null => {
     const step = 0.1;
     const dirX = Math.cos(player.angleY) * Math.cos(player.angleX);
     const dirY = -Math.sin(player.angleY);
     const dirZ = Math.cos(player.angleY) * Math.sin(player.angleX);
+    const worldHeight = worldRef.current?.height ?? DEFAULT_WORLD_HEIGHT;
 
     for (let i = 0; i < maxDist / step; i++) {
       const dist = i * step;
       const x = Math.floor(player.x + dirX * dist);
       const y = Math.floor(player.y + dirY * dist);
       const z = Math.floor(player.z + dirZ * dist);
+      if (isOutsideWorld(y, dirY, worldHeight)) break;
 
       const block = getBlock(x, y, z);
-      if (block.type !== 'air' && block.type !== 'water') {
+      // Torches can be aimed at even though they are not solid; fluids cannot.
+      if (block.type !== 'air' && !isFluid(block.type)) {
         const prevX = Math.floor(player.x + dirX * (dist - step));
         const prevY = Math.floor(player.y + dirY * (dist - step));
         const prevZ = Math.floor(player.z + dirZ * (dist - step));
@@ -399,6 +812,7 @@ export default function Index() {
     const hit = raycast();
     if (hit) {
       const block = getBlock(hit.x, hit.y, hit.z);
+      if (getBlockProperties(block.type).hardness < 0) return;
       
       if (block.type === 'tnt') {
         igniteTNT(hit.x, hit.y, hit.z);
@@ -406,26 +820,42 @@ export default function Index() {
       }
       
       setBlock(hit.x, hit.y, hit.z, { type: 'air' });
+
+      const drops: InventorySlot[] = [];
+      if (block.type === 'chest') {
+        drops.push(...getChestContents(hit.x, hit.y, hit.z));
+        // An empty entry stays behind so a chest placed here later does not roll the loot again.
+        containersRef.current[getContainerKey(hit.x, hit.y, hit.z)] = createEmptySlots(CHEST_SIZE);
+      }
       
+      const drop = getBlockDrop(block.type);
+      if (drop) drops.push({ type: drop, count: 1 });
+
       if (player.mode === 'survival') {
-        const slot = inventory.find(s => s.type === block.type && s.count < 64);
-        if (slot) {
-          slot.count++;
-        } else {
-          const emptySlot = inventory.find(s => s.type === null);
-          if (emptySlot) {
-            emptySlot.type = block.type;
-            emptySlot.count = 1;
-          }
-        }
+        // Whatever does not fit in the inventory is dropped where the block was.
+        const leftovers: ItemEntity[] = [];
+        drops.forEach(({ type, count }) => {
+          const left = type ? addToInventory(inventory, type, count) : 0;
+          if (type && left > 0) leftovers.push(createItemEntity(hit.x + 0.5, hit.y + 0.5, hit.z + 0.5, type, left));
+        });
         setInventory([...inventory]);
+        if (leftovers.length > 0) setItems(prev => [...prev, ...leftovers]);
       }
     }
-  }, [raycast, getBlock, setBlock, inventory, player.mode, igniteTNT]);
+  }, [raycast, getBlock, setBlock, getChestContents, inventory, player.mode, igniteTNT]);
 
   const placeBlock = useCallback(() => {
     const hit = raycast();
-    if (hit && inventory[player.selectedSlot].type && inventory[player.selectedSlot].count > 0) {
+    if (hit && getBlock(hit.x, hit.y, hit.z).type === 'chest') {
+      setOpenChest(getChestContents(hit.x, hit.y, hit.z));
+      setGameMode('chest');
+      if (document.pointerLockElement) {
+        document.exitPointerLock();
+      }
+      return;
+    }
+    const selected = inventory[player.selectedSlot].type;
+    if (hit && selected && isBlockType(selected) && inventory[player.selectedSlot].count > 0) {
       const faceOffsets = [
         [0, 0, 0],
         [1, 0, 0],
@@ -450,10 +880,14 @@ export default function Index() {
         maxZ: Math.floor(player.z + 0.3),
       };
       
+      const worldHeight = worldRef.current?.height ?? DEFAULT_WORLD_HEIGHT;
+      if (newY < 0 || newY >= worldHeight) return;
+
       if (newX < playerBox.minX || newX > playerBox.maxX ||
           newY < playerBox.minY || newY > playerBox.maxY ||
           newZ < playerBox.minZ || newZ > playerBox.maxZ) {
-        setBlock(newX, newY, newZ, { type: inventory[player.selectedSlot].type! });
+        // Leaves placed by hand stay even without a trunk nearby.
+        setBlock(newX, newY, newZ, selected === 'leaves' ? { type: selected, level: PERSISTENT_LEAVES } : { type: selected });
         
         if (player.mode === 'survival') {
           inventory[player.selectedSlot].count--;
@@ -464,12 +898,30 @@ export default function Index() {
         }
       }
     }
-  }, [raycast, setBlock, inventory, player]);
-
-  const gameLoop = useCallback(() => {
-    if (gameMode !== 'playing') return;
+  }, [raycast, getBlock, setBlock, getChestContents, inventory, player]);
+
+  const runTick = useCallback(() => {
+    blockUpdatesRef.current?.tick();
+    setClock(advanceClock);
+    setWeather(advanceWeather);
+
+    const world = worldRef.current;
+    const blockUpdates = blockUpdatesRef.current;
+    const lighting = lightingRef.current;
+    if (world && blockUpdates && lighting) {
+      runRandomTicks(world, { getBlock: blockUpdates.getBlock, setBlock: blockUpdates.setBlock, getLight: lighting.getLight }, gameRulesRef.current.randomTickSpeed);
+    }
+    const currentWeather = weatherRef.current;
+    if (world && blockUpdates && currentWeather.type !== 'clear') {
+      const x = Math.floor(playerRef.current.x + (Math.random() * 2 - 1) * SNOW_RADIUS);
+      const z = Math.floor(playerRef.current.z + (Math.random() * 2 - 1) * SNOW_RADIUS);
+      if (world.getBiome(x, z)?.precipitation === 'snow') addSnowLayer(blockUpdates, x, z, world.height);
+    }
+    if (shouldStrikeLightning(currentWeather)) strikeLightning();
 
     setPlayer(prev => {
+      if (!isAreaLoaded(prev.x, prev.z)) return prev;
+
       let newX = prev.x;
       let newY = prev.y;
       let newZ = prev.z;
@@ -505,6 +957,8 @@ export default function Index() {
           newZ += Math.sin(prev.angleX + Math.PI / 2) * moveSpeed;
         }
       }
+      newX += prev.velX;
+      newZ += prev.velZ;
 
       const checkCollision = (x: number, y: number, z: number): boolean => {
         const checks = [
@@ -524,7 +978,7 @@ export default function Index() {
         
         for (const [cx, cy, cz] of checks) {
           const block = getBlock(Math.floor(cx), Math.floor(cy), Math.floor(cz));
-          if (block.type !== 'air' && block.type !== 'water') return true;
+          if (block === UNLOADED_BLOCK || getBlockProperties(block.type).solid) return true;
         }
         return false;
       };
@@ -568,15 +1022,32 @@ export default function Index() {
         }
       }
 
-      return { ...prev, x: newX, y: newY, z: newZ, velY: newVelY, angleX: newAngleX, angleY: newAngleY };
+      if (newY < VOID_RESPAWN_Y) {
+        return { ...prev, ...spawnRef.current, velX: 0, velY: 0, velZ: 0 };
+      }
+
+      const drag = (vel: number) => (Math.abs(vel) < 0.001 ? 0 : vel * KNOCKBACK_DRAG);
+      return {
+        ...prev,
+        x: newX,
+        y: newY,
+        z: newZ,
+        velX: drag(prev.velX),
+        velY: newVelY,
+        velZ: drag(prev.velZ),
+        angleX: newAngleX,
+        angleY: newAngleY,
+      };
     });
 
     setTntEntities(prev => {
       const updated: TNTEntity[] = [];
       prev.forEach(tnt => {
         tnt.fuse--;
+        // TNT that fell out of the world is dropped without exploding.
+        if (tnt.y < VOID_RESPAWN_Y) return;
         if (tnt.fuse <= 0) {
-          explodeTNT(tnt.x, tnt.y, tnt.z);
+          explode({ x: tnt.x, y: tnt.y, z: tnt.z, power: TNT_POWER });
         } else {
           tnt.velY -= 0.02;
           tnt.x += tnt.velX;
@@ -584,7 +1055,7 @@ export default function Index() {
           tnt.z += tnt.velZ;
           
           const block = getBlock(Math.floor(tnt.x), Math.floor(tnt.y - 0.5), Math.floor(tnt.z));
-          if (block.type !== 'air') {
+          if (block === UNLOADED_BLOCK || getBlockProperties(block.type).solid) {
             tnt.velY = 0;
             tnt.velX *= 0.8;
             tnt.velZ *= 0.8;
@@ -597,11 +1068,46 @@ export default function Index() {
       return updated;
     });
 
+    if (blockUpdates) {
+      setFallingBlocks(prev => (prev.length > 0 ? prev.filter(entity => !stepFallingBlock(blockUpdates, entity)) : prev));
+      setItems(prev => {
+        if (prev.length === 0) return prev;
+        const player = playerRef.current;
+        const inventory = inventoryRef.current;
+        let pickedUp = false;
+        const remaining = prev.filter(item => {
+          if (stepItemEntity(blockUpdates, item)) return false;
+          const distance = Math.hypot(item.x - player.x, item.y - (player.y - 1.8), item.z - player.z);
+          if (player.mode !== 'survival' || distance > ITEM_PICKUP_RANGE) return true;
+          const left = addToInventory(inventory, item.type, item.count);
+          pickedUp ||= left < item.count;
+          item.count = left;
+          return left > 0;
+        });
+        if (pickedUp) setInventory([...inventory]);
+        return remaining;
+      });
+    }
+  }, [keys, isMobile, joystickPos, lookJoystick, getBlock, isAreaLoaded, explode, strikeLightning]);
+
+  // Runs as many fixed ticks as the time since the last frame calls for, so the world moves at the
+  // same speed on every display. After a stall only a few ticks are made up.
+  const gameLoop = useCallback((now: number) => {
+    if (gameMode !== 'playing') return;
+
+    tickBacklogRef.current = Math.min(tickBacklogRef.current + now - lastFrameRef.current, MAX_CATCH_UP_TICKS * TICK_MS);
+    lastFrameRef.current = now;
+    while (tickBacklogRef.current >= TICK_MS) {
+      tickBacklogRef.current -= TICK_MS;
+      runTick();
+    }
+
     animationRef.current = requestAnimationFrame(gameLoop);
-  }, [gameMode, keys, isMobile, joystickPos, lookJoystick, getBlock, explodeTNT]);
+  }, [gameMode, runTick]);
 
   useEffect(() => {
     if (gameMode === 'playing') {
+      lastFrameRef.current = performance.now();
       animationRef.current = requestAnimationFrame(gameLoop);
     }
     return () => {
@@ -619,16 +1125,41 @@ export default function Index() {
     canvas.width = window.innerWidth;
     canvas.height = window.innerHeight;
 
+    const sky = getWeatherSky(getSkyColors(clock.time), weather.type);
     const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, '#87CEEB');
-    gradient.addColorStop(1, '#E0F6FF');
+    gradient.addColorStop(0, sky.top);
+    gradient.addColorStop(1, sky.bottom);
     ctx.fillStyle = gradient;
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
     const FOV = (graphics.fov * Math.PI) / 180;
+    const daylight = getDaylight(clock.time) * (1 - getWeatherDarkness(weather.type) * 0.5);
+    const lighting = lightingRef.current;
+
+    // The sun and the moon are drawn before the blocks, which then cover them.
+    const drawSkyBody = (angle: number, color: string, size: number) => {
+      const dx = Math.cos(angle);
+      const dy = Math.sin(angle);
+      // Their path leans slightly south so they never pass straight overhead.
+      const dz = 0.25;
+      if (dy < -0.2) return;
+      const angleH = Math.atan2(dz, dx) - player.angleX;
+      const angleToBody = Math.atan2(Math.sin(angleH), Math.cos(angleH));
+      const angleToBodyV = Math.atan2(-dy, Math.sqrt(dx * dx + dz * dz)) - player.angleY;
+
+      const screenX = canvas.width / 2 + (angleToBody / FOV) * canvas.width;
+      const screenY = canvas.height / 2 + (angleToBodyV / (FOV * 0.6)) * canvas.height;
+      ctx.fillStyle = color;
+      ctx.fillRect(screenX - size / 2, screenY - size / 2, size, size);
+    };
+    const sunAngle = getSunAngle(clock.time);
+    drawSkyBody(sunAngle, '#FFE066', canvas.height / 10);
+    drawSkyBody(sunAngle + Math.PI, '#E6E8F0', canvas.height / 14);
+
     const density = graphics.rayDensity;
     const NUM_RAYS_H = isMobile ? 60 * density : 100 * density;
     const NUM_RAYS_V = isMobile ? 45 * density : 75 * density;
+    const worldHeight = worldRef.current?.height ?? DEFAULT_WORLD_HEIGHT;
 
     for (let rayY = 0; rayY < NUM_RAYS_V; rayY++) {
       for (let rayX = 0; rayX < NUM_RAYS_H; rayX++) {
@@ -643,44 +1174,79 @@ export default function Index() {
         let hitBlock: Block | null = null;
         let hitDist = 0;
         let hitFace = 0;
+        let hitX = 0;
+        let hitZ = 0;
+        let hitLight = OPEN_SKY_LIGHT;
+        let tintBlock: Block | null = null;
+        let tintDist = -1;
+        let tintLight = OPEN_SKY_LIGHT;
 
         for (let i = 0; i < graphics.renderDistance * 10; i++) {
           const dist = i * step;
+          const sampleY = player.y + dirY * dist;
           const x = Math.floor(player.x + dirX * dist);
-          const y = Math.floor(player.y + dirY * dist);
+          const y = Math.floor(sampleY);
           const z = Math.floor(player.z + dirZ * dist);
+          if (isOutsideWorld(y, dirY, worldHeight)) break;
 
           const block = getBlock(x, y, z);
-          if (block.type !== 'air' && block.type !== 'water') {
-            hitBlock = block;
-            hitDist = dist;
-            
-            const prevX = Math.floor(player.x + dirX * (dist - step));
-            const prevY = Math.floor(player.y + dirY * (dist - step));
-            const prevZ = Math.floor(player.z + dirZ * (dist - step));
-            
-            if (prevY !== y) hitFace = dirY > 0 ? 1 : 0;
-            else if (prevX !== x) hitFace = 2;
-            else if (prevZ !== z) hitFace = 3;
-            
-            break;
+          if (block === UNLOADED_BLOCK) break;
+          if (sampleY - y > getSurfaceHeight(block)) continue;
+          if (block.type === 'air') continue;
+          // Water and glass let the ray through but tint what lies behind them.
+          if (getBlockProperties(block.type).transparent) {
+            if (!tintBlock) {
+              tintBlock = block;
+              tintDist = dist;
+              tintLight = lighting?.getLight(x, y, z) ?? OPEN_SKY_LIGHT;
+            }
+            continue;
           }
+          hitBlock = block;
+          hitDist = dist;
+          hitX = x;
+          hitZ = z;
+          
+          const prevX = Math.floor(player.x + dirX * (dist - step));
+          const prevY = Math.floor(player.y + dirY * (dist - step));
+          const prevZ = Math.floor(player.z + dirZ * (dist - step));
+          
+          if (prevY !== y) hitFace = dirY > 0 ? 1 : 0;
+          else if (prevX !== x) hitFace = 2;
+          else if (prevZ !== z) hitFace = 3;
+          // Solid blocks hold no light themselves, so a face is lit by the block in front of it.
+          hitLight = lighting?.getLight(prevX, prevY, prevZ) ?? OPEN_SKY_LIGHT;
+          
+          break;
         }
 
-        if (hitBlock) {
-          const brightness = Math.max(0.3, 1 - hitDist / graphics.renderDistance);
+        if (hitBlock || tintBlock) {
+          const brightness = Math.max(0.3, 1 - (hitBlock ? hitDist : tintDist) / graphics.renderDistance);
           const faceBrightness = graphics.shadows ? (hitFace === 0 ? 1 : hitFace === 1 ? 0.6 : 0.8) : 0.9;
           
-          let color = BLOCK_COLORS[hitBlock.type];
-          if (hitBlock.type === 'tnt') {
-            const stripe = Math.floor((rayX + rayY) / 4) % 2 === 0;
-            color = stripe ? '#FF0000' : '#FFFFFF';
+          const properties = getBlockProperties((hitBlock ?? tintBlock)!.type);
+          let color = properties.color;
+          if (hitBlock?.type === 'grass' || hitBlock?.type === 'leaves') {
+            const biome = worldRef.current?.getBiome(hitX, hitZ);
+            if (biome) color = hitBlock.type === 'grass' ? biome.grassColor : biome.leavesColor;
+          }
+          if (properties.stripeColor && Math.floor((rayX + rayY) / 4) % 2 !== 0) {
+            color = properties.stripeColor;
           }
           
           const rgb = parseInt(color.slice(1), 16);
-          const r = ((rgb >> 16) & 255) * brightness * faceBrightness;
-          const g = ((rgb >> 8) & 255) * brightness * faceBrightness;
-          const b = (rgb & 255) * brightness * faceBrightness;
+          const shade = getBrightness(hitBlock ? hitLight : tintLight, daylight, properties.lightEmission);
+          let r = ((rgb >> 16) & 255) * brightness * faceBrightness * shade;
+          let g = ((rgb >> 8) & 255) * brightness * faceBrightness * shade;
+          let b = (rgb & 255) * brightness * faceBrightness * shade;
+
+          if (hitBlock && tintBlock) {
+            const tint = parseInt(getBlockProperties(tintBlock.type).color.slice(1), 16);
+            const tintBrightness = Math.max(0.3, 1 - tintDist / graphics.renderDistance) * getBrightness(tintLight, daylight);
+            r = r * 0.45 + ((tint >> 16) & 255) * tintBrightness * 0.55;
+            g = g * 0.45 + ((tint >> 8) & 255) * tintBrightness * 0.55;
+            b = b * 0.45 + (tint & 255) * tintBrightness * 0.55;
+          }
 
           ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
           ctx.fillRect(
@@ -693,6 +1259,44 @@ export default function Index() {
       }
     }
 
+    fallingBlocks.forEach(entity => {
+      const dx = entity.x - player.x;
+      const dy = entity.y - player.y;
+      const dz = entity.z - player.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+      if (dist < graphics.renderDistance) {
+        const angleToBlock = Math.atan2(dz, dx) - player.angleX;
+        const angleToBlockV = Math.atan2(-dy, Math.sqrt(dx * dx + dz * dz)) - player.angleY;
+
+        const screenX = canvas.width / 2 + (angleToBlock / FOV) * canvas.width;
+        const screenY = canvas.height / 2 + (angleToBlockV / (FOV * 0.6)) * canvas.height;
+
+        const size = Math.max(20, 200 / dist);
+        ctx.fillStyle = getBlockProperties(entity.type).color;
+        ctx.fillRect(screenX - size / 2, screenY - size / 2, size, size);
+      }
+    });
+
+    items.forEach(item => {
+      const dx = item.x - player.x;
+      const dy = item.y + 0.125 - player.y;
+      const dz = item.z - player.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+      if (dist < graphics.renderDistance) {
+        const angleToItem = Math.atan2(dz, dx) - player.angleX;
+        const angleToItemV = Math.atan2(-dy, Math.sqrt(dx * dx + dz * dz)) - player.angleY;
+
+        const screenX = canvas.width / 2 + (angleToItem / FOV) * canvas.width;
+        const screenY = canvas.height / 2 + (angleToItemV / (FOV * 0.6)) * canvas.height;
+
+        const size = Math.max(6, 50 / dist);
+        ctx.fillStyle = getItemProperties(item.type).color;
+        ctx.fillRect(screenX - size / 2, screenY - size / 2, size, size);
+      }
+    });
+
     tntEntities.forEach(tnt => {
       const dx = tnt.x - player.x;
       const dy = tnt.y - player.y;
@@ -719,6 +1323,49 @@ export default function Index() {
       }
     });
 
+    const biome = worldRef.current?.getBiome(Math.floor(player.x), Math.floor(player.z));
+    const precipitation = weather.type === 'clear' ? 'none' : biome?.precipitation ?? 'none';
+    const sheltered = getSkyLight(lighting?.getLight(Math.floor(player.x), Math.floor(player.y), Math.floor(player.z)) ?? 0) < MAX_LIGHT;
+    if (precipitation !== 'none' && !sheltered) {
+      // Drops are placed by hashing their index and scroll sideways as the player turns.
+      const seconds = performance.now() / 1000;
+      const turn = (player.angleX / FOV) * canvas.width;
+      const count = precipitation === 'rain' ? RAIN_DROPS : SNOWFLAKES;
+      ctx.fillStyle = precipitation === 'rain' ? 'rgba(174, 194, 224, 0.6)' : 'rgba(255, 255, 255, 0.85)';
+      for (let i = 0; i < count; i++) {
+        const offsetX = hashCoords(i, 1) / 4294967296;
+        const offsetY = hashCoords(i, 2) / 4294967296;
+        const speed = precipitation === 'rain' ? 1.2 + offsetX : 0.12 + offsetX * 0.08;
+        const sway = precipitation === 'snow' ? Math.sin(seconds * 1.5 + i) * 12 : 0;
+        const x = (((offsetX * canvas.width - turn + sway) % canvas.width) + canvas.width) % canvas.width;
+        const y = ((offsetY + seconds * speed) % 1) * canvas.height;
+        if (precipitation === 'rain') ctx.fillRect(x, y, 1.5, 14);
+        else ctx.fillRect(x, y, 4, 4);
+      }
+    }
+
+    const strike = lightningRef.current;
+    const sinceStrike = strike ? performance.now() - strike.time : Infinity;
+    if (strike && sinceStrike < LIGHTNING_FLASH) {
+      const dx = strike.x - player.x;
+      const dz = strike.z - player.z;
+      const angleToStrike = Math.atan2(Math.sin(Math.atan2(dz, dx) - player.angleX), Math.cos(Math.atan2(dz, dx) - player.angleX));
+      const angleToGround = Math.atan2(-(strike.y - player.y), Math.sqrt(dx * dx + dz * dz)) - player.angleY;
+      const screenX = canvas.width / 2 + (angleToStrike / FOV) * canvas.width;
+      const groundY = canvas.height / 2 + (angleToGround / (FOV * 0.6)) * canvas.height;
+
+      ctx.strokeStyle = '#F4F7FF';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(screenX, 0);
+      for (let step = 1; step <= 8; step++) {
+        ctx.lineTo(screenX + ((hashCoords(strike.time, step) % 41) - 20), (groundY * step) / 8);
+      }
+      ctx.stroke();
+      ctx.fillStyle = `rgba(255, 255, 255, ${0.5 * (1 - sinceStrike / LIGHTNING_FLASH)})`;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
     const crosshairSize = 20;
     ctx.strokeStyle = '#fff';
     ctx.lineWidth = 3;
@@ -731,7 +1378,7 @@ export default function Index() {
     ctx.lineTo(canvas.width / 2, canvas.height / 2 + crosshairSize / 2);
     ctx.stroke();
 
-  }, [player, gameMode, getBlock, isMobile, graphics, tntEntities]);
+  }, [player, gameMode, getBlock, isMobile, graphics, tntEntities, fallingBlocks, items, clock, weather]);
 
   if (gameMode === 'menu') {
     return (
@@ -746,13 +1393,15 @@ export default function Index() {
           </div>
           
           <div className="space-y-4">
-            <Button onClick={() => startGame('survival')} className="w-full h-14 text-xl font-bold shadow-lg hover:shadow-xl transition-all">
-              <Icon name="Sword" className="mr-3" size={24} />
-              Режим выживания
-            </Button>
-            <Button onClick={() => startGame('creative')} className="w-full h-14 text-xl font-bold shadow-lg hover:shadow-xl transition-all" variant="secondary">
-              <Icon name="Sparkles" className="mr-3" size={24} />
-              Креативный режим
+            {worlds.length > 0 && (
+              <Button onClick={() => navigate(`/world/${worlds[0].id}`)} className="w-full h-14 text-xl font-bold shadow-lg hover:shadow-xl transition-all">
+                <Icon name="Play" className="mr-3" size={24} />
+                Продолжить: {worlds[0].name}
+              </Button>
+            )}
+            <Button onClick={() => setGameMode('worlds')} className="w-full h-14 text-xl font-bold shadow-lg hover:shadow-xl transition-all" variant="secondary">
+              <Icon name="Globe" className="mr-3" size={24} />
+              Одиночная игра
             </Button>
             <Button onClick={() => setGameMode('settings')} className="w-full h-14 text-xl font-bold shadow-lg hover:shadow-xl transition-all" variant="outline">
               <Icon name="Settings" className="mr-3" size={24} />
@@ -768,6 +1417,281 @@ export default function Index() {
     );
   }
 
+  if (gameMode === 'worlds') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-green-700 via-green-800 to-green-900 p-4">
+        <Card className="p-8 max-w-2xl w-full space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-4xl font-bold">Выбор мира</h2>
+            <Button onClick={() => openWorldDialog('create')}>
+              <Icon name="Plus" className="mr-2" size={20} />
+              Создать мир
+            </Button>
+          </div>
+
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {worlds.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">Миров пока нет — создайте первый</p>
+            )}
+            {worlds.map(world => (
+              <div key={world.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                <div className="flex-1 min-w-0">
+                  <p className="text-lg font-bold truncate">{world.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {world.mode === 'creative' ? 'Креатив' : 'Выживание'} · {getWorldPreset(world.generator.preset).name} · {format(world.lastPlayed, 'd MMMM yyyy, HH:mm', { locale: ru })} · Сид {world.seed}
+                  </p>
+                </div>
+                <Button size="icon" onClick={() => navigate(`/world/${world.id}`)} title="Играть">
+                  <Icon name="Play" size={18} />
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => openWorldDialog('rename', world)} title="Переименовать">
+                  <Icon name="Pencil" size={18} />
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => copyWorld(world)} title="Копировать">
+                  <Icon name="Copy" size={18} />
+                </Button>
+                <Button size="icon" variant="outline" onClick={() => setWorldToDelete(world)} title="Удалить">
+                  <Icon name="Trash2" size={18} />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={() => setGameMode('menu')} className="w-full h-12 text-lg" variant="outline">
+            <Icon name="ArrowLeft" className="mr-2" size={20} />
+            Назад в меню
+          </Button>
+        </Card>
+
+        <Dialog open={worldDialog !== null} onOpenChange={(open) => !open && setWorldDialog(null)}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{worldDialog?.kind === 'create' ? 'Новый мир' : 'Переименовать мир'}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="world-name">Название</Label>
+                <Input
+                  id="world-name"
+                  value={worldNameDraft}
+                  placeholder="Новый мир"
+                  maxLength={40}
+                  onChange={(e) => setWorldNameDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && submitWorldDialog()}
+                />
+              </div>
+              {worldDialog?.kind === 'create' && (
+                <div className="space-y-2">
+                  <Label>Режим игры</Label>
+                  <Select value={worldModeDraft} onValueChange={(val) => setWorldModeDraft(val as WorldMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="survival">Выживание</SelectItem>
+                      <SelectItem value="creative">Креатив</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {worldDialog?.kind === 'create' && (
+                <div className="space-y-2">
+                  <Label htmlFor="world-seed">Сид мира</Label>
+                  <Input
+                    id="world-seed"
+                    value={worldSeedDraft}
+                    placeholder="Оставьте пустым для случайного"
+                    onChange={(e) => setWorldSeedDraft(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">Один и тот же сид всегда создаёт одинаковый мир</p>
+                </div>
+              )}
+              {worldDialog?.kind === 'create' && (
+                <div className="space-y-2">
+                  <Label>Тип мира</Label>
+                  <Select value={worldPresetDraft} onValueChange={(val) => setWorldPresetDraft(val as WorldPresetId)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORLD_PRESETS.map(preset => (
+                        <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {getWorldPreset(worldPresetDraft).description}
+                  </p>
+                </div>
+              )}
+              {worldDialog?.kind === 'create' && (
+                <div className="space-y-2">
+                  <Label>Высота мира</Label>
+                  <Select value={String(worldHeightDraft)} onValueChange={(val) => changeWorldHeightDraft(Number(val))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORLD_HEIGHTS.map(height => (
+                        <SelectItem key={height} value={String(height)}>{height} блоков</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">Выше — больше места для гор, пещер и построек</p>
+                </div>
+              )}
+              {worldDialog?.kind === 'create' && worldPresetDraft === 'superflat' && (
+                <div className="space-y-2">
+                  <Label htmlFor="world-layers">Слои снизу вверх</Label>
+                  <Input
+                    id="world-layers"
+                    value={flatLayersDraft}
+                    onChange={(e) => setFlatLayersDraft(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">Через запятую, «3*dirt» — три слоя земли</p>
+                </div>
+              )}
+              {worldDialog?.kind === 'create' && worldPresetDraft === 'heightmap' && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="world-heightmap">Изображение (PNG в оттенках серого)</Label>
+                    <Input
+                      id="world-heightmap"
+                      type="file"
+                      accept="image/png"
+                      onChange={(e) => selectHeightmapFile(e.target.files?.[0])}
+                    />
+                    {heightmapDraft.image && (
+                      <p className="text-sm text-muted-foreground">
+                        {heightmapDraft.fileName}: {heightmapDraft.image.width}×{heightmapDraft.image.depth} блоков
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Высота рельефа: {heightmapDraft.scale} блоков</Label>
+                    <Slider
+                      value={[heightmapDraft.scale]}
+                      onValueChange={(val) => setHeightmapDraft(prev => ({ ...prev, scale: val[0] }))}
+                      min={4}
+                      max={worldHeightDraft - 9}
+                      step={1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Уровень моря: {heightmapDraft.seaLevel}</Label>
+                    <Slider
+                      value={[heightmapDraft.seaLevel]}
+                      onValueChange={(val) => setHeightmapDraft(prev => ({ ...prev, seaLevel: val[0] }))}
+                      min={0}
+                      max={worldHeightDraft - 8}
+                      step={1}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>За краем изображения</Label>
+                    <Select
+                      value={heightmapDraft.edge}
+                      onValueChange={(val) => setHeightmapDraft(prev => ({ ...prev, edge: val as HeightmapEdge }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="border">Море</SelectItem>
+                        <SelectItem value="tile">Повторять карту</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              {worldDialog?.kind === 'create' && getWorldPreset(worldPresetDraft).configurable && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="world-advanced">Настройки генератора (JSON)</Label>
+                    <Switch id="world-advanced" checked={showAdvancedDraft} onCheckedChange={setShowAdvancedDraft} />
+                  </div>
+                  {showAdvancedDraft && (
+                    <>
+                      <Textarea
+                        value={configDraft}
+                        spellCheck={false}
+                        className="h-64 font-mono text-xs"
+                        onChange={(e) => {
+                          setConfigDraft(e.target.value);
+                          setConfigErrors([]);
+                        }}
+                      />
+                      {configErrors.length > 0 && (
+                        <ul className="text-sm text-destructive space-y-1 max-h-32 overflow-y-auto">
+                          {configErrors.map((error, index) => (
+                            <li key={index}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => setConfigDraft(DEFAULT_CONFIG_TEXT)}>
+                        Сбросить по умолчанию
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setWorldDialog(null)}>Отмена</Button>
+              <Button onClick={submitWorldDialog}>{worldDialog?.kind === 'create' ? 'Создать' : 'Сохранить'}</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={worldToDelete !== null} onOpenChange={(open) => !open && setWorldToDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Удалить мир «{worldToDelete?.name}»?</AlertDialogTitle>
+              <AlertDialogDescription>Все постройки и инвентарь этого мира будут потеряны безвозвратно.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Отмена</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmDeleteWorld}>Удалить</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    );
+  }
+
+  if (gameMode === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-slate-700 to-slate-900 p-4">
+        <Card className="p-8">
+          <p className="text-xl font-semibold">Загрузка мира...</p>
+        </Card>
+      </div>
+    );
+  }
+
+  // The world keeps its state while paused; settings opened from here include the world clock.
+  if (gameMode === 'paused') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-slate-700 to-slate-900 p-4">
+        <Card className="p-8 max-w-md w-full space-y-4">
+          <h2 className="text-4xl font-bold text-center mb-6">Пауза</h2>
+          <Button onClick={() => setGameMode('playing')} className="w-full h-12 text-lg">
+            <Icon name="Play" className="mr-2" size={20} />
+            Вернуться в игру
+          </Button>
+          <Button onClick={() => setGameMode('settings')} className="w-full h-12 text-lg" variant="secondary">
+            <Icon name="Settings" className="mr-2" size={20} />
+            Настройки
+          </Button>
+          <Button onClick={() => navigate('/')} className="w-full h-12 text-lg" variant="outline">
+            <Icon name="LogOut" className="mr-2" size={20} />
+            Сохранить и выйти в меню
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   if (gameMode === 'settings') {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-slate-700 to-slate-900 p-4">
@@ -820,6 +1744,21 @@ export default function Index() {
               <p className="text-sm text-muted-foreground">Влияет на детализацию изображения</p>
             </div>
 
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <Label className="text-lg">Память под чанки: {graphics.chunkMemoryMb} МБ</Label>
+              </div>
+              <Slider
+                value={[graphics.chunkMemoryMb]}
+                onValueChange={(val) => setGraphics(prev => ({ ...prev, chunkMemoryMb: val[0] }))}
+                min={4}
+                max={64}
+                step={4}
+                className="w-full"
+              />
+              <p className="text-sm text-muted-foreground">Дальние чанки выгружаются, когда лимит превышен</p>
+            </div>
+
             <div className="flex items-center justify-between p-4 border rounded-lg">
               <div>
                 <Label className="text-lg">Тени</Label>
@@ -830,11 +1769,105 @@ export default function Index() {
                 onCheckedChange={(val) => setGraphics(prev => ({ ...prev, shadows: val }))}
               />
             </div>
+
+            {activeWorldIdRef.current && (
+              <>
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <Label className="text-lg">Время суток: {formatTimeOfDay(clock.time)}</Label>
+                  </div>
+                  <Slider
+                    value={[getTimeOfDay(clock.time) * 24]}
+                    onValueChange={(val) => setClock(prev => setTimeOfDay(prev, val[0] / 24))}
+                    min={0}
+                    max={23.5}
+                    step={0.5}
+                    className="w-full"
+                  />
+                  <p className="text-sm text-muted-foreground">Сохраняется вместе с миром</p>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <Label className="text-lg">Длина суток: {clock.dayLength} мин</Label>
+                  </div>
+                  <Slider
+                    value={[clock.dayLength]}
+                    onValueChange={(val) => setClock(prev => ({ ...prev, dayLength: val[0] }))}
+                    min={2}
+                    max={60}
+                    step={2}
+                    className="w-full"
+                  />
+                  <p className="text-sm text-muted-foreground">Сколько реальных минут длятся день и ночь вместе</p>
+                </div>
+
+                <div className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <Label className="text-lg">Остановить время</Label>
+                    <p className="text-sm text-muted-foreground">Солнце замирает на месте</p>
+                  </div>
+                  <Switch
+                    checked={clock.frozen}
+                    onCheckedChange={(val) => setClock(prev => ({ ...prev, frozen: val }))}
+                  />
+                </div>
+              </>
+            )}
           </div>
 
-          <Button onClick={() => setGameMode('menu')} className="w-full h-12 text-lg mt-8">
+          <Button onClick={() => setGameMode(activeWorldIdRef.current ? 'playing' : 'menu')} className="w-full h-12 text-lg mt-8">
             <Icon name="ArrowLeft" className="mr-2" size={20} />
-            Назад в меню
+            {activeWorldIdRef.current ? 'Вернуться в игру' : 'Назад в меню'}
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (gameMode === 'chest' && openChest) {
+    const moveStack = (from: InventorySlot[], index: number, to: InventorySlot[]) => {
+      const slot = from[index];
+      if (!slot.type) return;
+      slot.count = addToInventory(to, slot.type, slot.count);
+      if (slot.count === 0) slot.type = null;
+      setOpenChest([...openChest]);
+      setInventory([...inventory]);
+    };
+
+    const renderSlots = (slots: InventorySlot[], onSlotClick: (index: number) => void) => (
+      <div className="grid grid-cols-9 gap-2">
+        {slots.map((slot, index) => (
+          <div
+            key={index}
+            className="aspect-square border-2 border-border bg-muted flex flex-col items-center justify-center p-2 cursor-pointer hover:bg-accent transition-colors"
+            onClick={() => onSlotClick(index)}
+          >
+            {slot.type && (
+              <>
+                <div
+                  className="w-full h-2/3 rounded"
+                  style={{ ...getItemSwatch(slot.type), backgroundSize: '8px 8px' }}
+                />
+                <span className="text-xs mt-1 font-bold">{slot.count}</span>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black/50 backdrop-blur p-4">
+        <Card className="p-8 max-w-4xl w-full space-y-6">
+          <h2 className="text-3xl font-bold text-center">Сундук</h2>
+          {renderSlots(openChest, index => moveStack(openChest, index, inventory))}
+
+          <h3 className="text-xl font-bold">Инвентарь</h3>
+          {renderSlots(inventory, index => moveStack(inventory, index, openChest))}
+
+          <Button onClick={() => setGameMode('playing')} className="w-full">
+            Закрыть (ESC или E)
           </Button>
         </Card>
       </div>
@@ -863,11 +1896,7 @@ export default function Index() {
                   <>
                     <div
                       className="w-full h-2/3 rounded"
-                      style={{ 
-                        backgroundColor: slot.type === 'tnt' ? '#FF0000' : BLOCK_COLORS[slot.type],
-                        backgroundImage: slot.type === 'tnt' ? 'linear-gradient(45deg, #FF0000 25%, #FFFFFF 25%, #FFFFFF 50%, #FF0000 50%, #FF0000 75%, #FFFFFF 75%)' : 'none',
-                        backgroundSize: '8px 8px'
-                      }}
+                      style={{ ...getItemSwatch(slot.type), backgroundSize: '8px 8px' }}
                     />
                     <span className="text-xs mt-1 font-bold">{slot.count}</span>
                   </>
@@ -898,7 +1927,7 @@ export default function Index() {
             
             <TabsContent value="blocks" className="space-y-4">
               <div className="grid grid-cols-6 gap-3">
-                {ALL_BLOCKS.map((blockType) => (
+                {CREATIVE_BLOCKS.map((blockType) => (
                   <div
                     key={blockType}
                     className="aspect-square border-2 border-border bg-muted flex flex-col items-center justify-center p-3 cursor-pointer hover:bg-accent transition-colors"
@@ -906,7 +1935,7 @@ export default function Index() {
                       const emptySlot = inventory.find(s => s.type === null || s.type === blockType);
                       if (emptySlot) {
                         emptySlot.type = blockType;
-                        emptySlot.count = 64;
+                        emptySlot.count = getBlockProperties(blockType).stackSize;
                         setInventory([...inventory]);
                         toast({ title: `${blockType} добавлен в инвентарь` });
                       }
@@ -914,11 +1943,7 @@ export default function Index() {
                   >
                     <div
                       className="w-full h-3/4 rounded"
-                      style={{ 
-                        backgroundColor: blockType === 'tnt' ? '#FF0000' : BLOCK_COLORS[blockType],
-                        backgroundImage: blockType === 'tnt' ? 'linear-gradient(45deg, #FF0000 25%, #FFFFFF 25%, #FFFFFF 50%, #FF0000 50%, #FF0000 75%, #FFFFFF 75%)' : 'none',
-                        backgroundSize: '12px 12px'
-                      }}
+                      style={{ ...getItemSwatch(blockType), backgroundSize: '12px 12px' }}
                     />
                     <span className="text-xs mt-1 capitalize font-bold">{blockType}</span>
                   </div>
@@ -937,11 +1962,7 @@ export default function Index() {
                       <>
                         <div
                           className="w-full h-2/3 rounded"
-                          style={{ 
-                            backgroundColor: slot.type === 'tnt' ? '#FF0000' : BLOCK_COLORS[slot.type],
-                            backgroundImage: slot.type === 'tnt' ? 'linear-gradient(45deg, #FF0000 25%, #FFFFFF 25%, #FFFFFF 50%, #FF0000 50%, #FF0000 75%, #FFFFFF 75%)' : 'none',
-                            backgroundSize: '8px 8px'
-                          }}
+                          style={{ ...getItemSwatch(slot.type), backgroundSize: '8px 8px' }}
                         />
                         <span className="text-xs mt-1 font-bold">{slot.count}</span>
                       </>
@@ -960,6 +1981,8 @@ export default function Index() {
     );
   }
 
+  const playerLight = lightingRef.current?.getLight(Math.floor(player.x), Math.floor(player.y), Math.floor(player.z)) ?? 0;
+
   return (
     <div className="relative w-screen h-screen overflow-hidden">
       <canvas ref={canvasRef} className="absolute inset-0" />
@@ -972,6 +1995,21 @@ export default function Index() {
         </div>
       )}
 
+      {player.mode === 'survival' && (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 flex gap-1">
+          {Array.from({ length: MAX_HEALTH / 2 }, (_, index) => (
+            <Icon
+              key={index}
+              name="Heart"
+              size={18}
+              className={
+                player.health >= index * 2 + 2 ? 'text-red-500 fill-red-500' : player.health > index * 2 ? 'text-red-500' : 'text-gray-500'
+              }
+            />
+          ))}
+        </div>
+      )}
+
       <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2">
         {inventory.slice(0, 9).map((slot, index) => (
           <div
@@ -984,11 +2022,7 @@ export default function Index() {
               <>
                 <div
                   className="w-9 h-9 rounded"
-                  style={{ 
-                    backgroundColor: slot.type === 'tnt' ? '#FF0000' : BLOCK_COLORS[slot.type],
-                    backgroundImage: slot.type === 'tnt' ? 'linear-gradient(45deg, #FF0000 25%, #FFFFFF 25%, #FFFFFF 50%, #FF0000 50%, #FF0000 75%, #FFFFFF 75%)' : 'none',
-                    backgroundSize: '6px 6px'
-                  }}
+                  style={{ ...getItemSwatch(slot.type), backgroundSize: '6px 6px' }}
                 />
                 <span className="text-xs text-white font-bold">{slot.count}</span>
               </>
@@ -1016,9 +2050,42 @@ export default function Index() {
         <p>E - инвентарь</p>
         <p>C - креатив меню</p>
         <p>1-9 - выбор слота</p>
+        <p>T или / - команды</p>
+        <p>F3 - отладка</p>
         <p>ESC - выход</p>
       </div>
 
+      {commandDraft !== null && (
+        <div className="absolute bottom-28 left-1/2 -translate-x-1/2 w-full max-w-xl px-4">
+          <Input
+            autoFocus
+            value={commandDraft}
+            onChange={(e) => setCommandDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitCommand();
+              if (e.key === 'Escape') setCommandDraft(null);
+            }}
+            placeholder="/weather rain"
+            className="bg-black/70 text-white border-white/30 font-mono"
+          />
+        </div>
+      )}
+
+      {showDebug && (
+        <div className="absolute top-4 right-4 bg-black/70 backdrop-blur px-4 py-2 rounded text-sm text-white font-mono space-y-1">
+          <p>Время: {formatTimeOfDay(clock.time)} (день {Math.floor(clock.time) + 1})</p>
+          <p>Погода: {WEATHER_NAMES[weather.type]} ({Math.ceil(weather.duration / TICKS_PER_SECOND)} с)</p>
+          <p>XYZ: {player.x.toFixed(1)} / {player.y.toFixed(1)} / {player.z.toFixed(1)}</p>
+          <p>Чанк: {Math.floor(player.x / CHUNK_SIZE)}, {Math.floor(player.z / CHUNK_SIZE)}</p>
+          <p>Свет: небо {getSkyLight(playerLight)}, блоки {getBlockLight(playerLight)}</p>
+          <p>Биом: {worldRef.current?.getBiome(Math.floor(player.x), Math.floor(player.z))?.name ?? '—'}</p>
+          <p>Чанков загружено: {chunkStats.loaded} (изменено {chunkStats.modified})</p>
+          <p>В очереди генерации: {chunkStats.pending}</p>
+          <p>Обновления блоков: {blockUpdatesRef.current?.getPending() ?? 0}</p>
+          <p>Память: {(chunkStats.bytes / 1024 / 1024).toFixed(1)} / {graphics.chunkMemoryMb} МБ</p>
+        </div>
+      )}
+
       {isMobile && (
         <>
           <div
@@ -1081,6 +2148,13 @@ export default function Index() {
             />
           </div>
 
+          <Button
+            className="absolute top-4 right-4 w-12 h-12 rounded-lg"
+            onClick={() => setGameMode('paused')}
+          >
+            <Icon name="Pause" size={24} />
+          </Button>
+
           <div className="absolute bottom-4 right-8 space-y-2">
             <Button
               className="w-16 h-16 rounded-lg"